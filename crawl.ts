@@ -0,0 +1,161 @@
+import minimist from 'minimist';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DOMMonitor } from './dom-monitor';
+import { loadLoginRecipe } from './utils/auth';
+import { REPORT_STYLES } from './utils/report-styles';
+import { loadSemanticConfig } from './utils/semantic-config';
+import { crawlSite, CrawlSummary } from './utils/site-crawler';
+
+/**
+ * Values of a flag that may be repeated or given as a comma-separated list
+ */
+function listArg(value: string | string[] | undefined): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value])
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Generate an HTML report of the crawled pages
+ */
+function generateHTMLReport(summary: CrawlSummary): string {
+  const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+  const count = (status: string) => summary.pages.filter(page => page.status === status).length;
+
+  return `
+  <!DOCTYPE html>
+  <html>
+  <head>
+    <title>Crawl Summary - ${escapeHtml(summary.startUrls.join(', '))}</title>
+    <style>
+      ${REPORT_STYLES}
+      .extracted { color: #009900; }
+      .duplicate { color: #666; }
+      .failed { color: #cc0000; font-weight: bold; }
+    </style>
+  </head>
+  <body>
+    <h1>Crawl Summary</h1>
+    <div class="metadata">
+      <p>Start URLs: ${escapeHtml(summary.startUrls.join(', ') || 'sitemap')}</p>
+      <p>Extracted pages: ${count('extracted')}</p>
+      <p>Duplicates of an extracted page: ${count('duplicate')}</p>
+      <p>Failed pages: ${count('failed')}</p>
+      <p>Links not followed: ${summary.skippedLinks}</p>
+      ${summary.unvisited > 0 ? `<p>URLs left when the page limit was reached: ${summary.unvisited}</p>` : ''}
+      <p>Started: ${new Date(summary.startedAt).toLocaleString()}</p>
+      <p>Finished: ${new Date(summary.finishedAt).toLocaleString()}</p>
+    </div>
+
+    <table>
+      <tr><th>Status</th><th>URL</th><th>Page</th><th>Depth</th><th>Found on</th><th>Details</th></tr>
+      ${summary.pages.map(page => `
+        <tr>
+          <td class="${page.status}">${page.status}</td>
+          <td><a href="${escapeHtml(page.url)}" target="_blank">${escapeHtml(page.url)}</a></td>
+          <td>${escapeHtml(page.pageKey)}</td>
+          <td>${page.depth}</td>
+          <td>${escapeHtml(page.foundOn)}</td>
+          <td>
+            ${page.redirectedTo ? `Redirected to ${escapeHtml(page.redirectedTo)}<br>` : ''}
+            ${page.jsonPath ? `${escapeHtml(path.basename(page.jsonPath))}, ${page.elementCount} elements` : ''}
+            ${page.duplicateOf ? `Same page as ${escapeHtml(page.duplicateOf)}` : ''}
+            ${page.error ? escapeHtml(page.error) : ''}
+          </td>
+        </tr>
+      `).join('')}
+    </table>
+  </body>
+  </html>
+  `;
+}
+
+async function main() {
+  const args = minimist(process.argv.slice(2), { string: ['url', 'include', 'exclude'] });
+  const startUrls = listArg(args.url);
+
+  if (args.help || (startUrls.length === 0 && !args.sitemap)) {
+    console.log('Usage:');
+    console.log('  npm run crawl -- --url=<url> [options]');
+    console.log('');
+    console.log('Options:');
+    console.log('  --url              Start URL; repeat for several (required without --sitemap)');
+    console.log('  --sitemap          Local sitemap.xml whose URLs are crawled too');
+    console.log('  --depth            Links followed from the start pages (default: 2)');
+    console.log('  --max-pages        Pages extracted at most (default: 50)');
+    console.log('  --include          Route pattern a URL must match to be crawled, e.g. /docs/*; repeatable');
+    console.log('  --exclude          Route pattern of URLs never crawled, e.g. /logout; repeatable');
+    console.log('  --output-path      Output directory for mappings (default: ./mappings)');
+    console.log('  --report-path      Output directory for the crawl summary (default: ./test-results)');
+    console.log('  --feature-name     Feature name for better organization (optional)');
+    console.log('  --wait-time        Wait time in ms after page load (default: 0)');
+    console.log('  --no-screenshots   Disable screenshot generation');
+    console.log('  --storage-state    Playwright storage state file to open pages with (saved there after --login)');
+    console.log('  --login            Login recipe JSON file, run before crawling');
+    console.log('  --states           States file with the actions reaching modals, menus and wizard steps to capture');
+    console.log('  --help             Show this help message');
+    process.exit(args.help ? 0 : 1);
+  }
+
+  const outputPath = args['output-path'] || './mappings';
+  if (!fs.existsSync(outputPath)) {
+    fs.mkdirSync(outputPath, { recursive: true });
+  }
+
+  const monitor = new DOMMonitor({
+    outputPath,
+    featureName: args['feature-name'],
+    storageState: args['storage-state'],
+    login: args.login ? loadLoginRecipe(args.login) : undefined,
+    states: args.states
+  });
+
+  let summary: CrawlSummary;
+  try {
+    await monitor.init();
+    summary = await crawlSite(monitor, startUrls, {
+      maxDepth: args.depth !== undefined ? parseInt(args.depth, 10) : undefined,
+      maxPages: args['max-pages'] !== undefined ? parseInt(args['max-pages'], 10) : undefined,
+      include: listArg(args.include),
+      exclude: listArg(args.exclude),
+      sitemap: args.sitemap,
+      waitTime: args['wait-time'] ? parseInt(args['wait-time'], 10) : 0,
+      screenshots: args.screenshots !== false,
+      routing: loadSemanticConfig()
+    });
+  } finally {
+    await monitor.close();
+  }
+
+  // Kept out of the mappings directory, where any JSON file is read as a mapping
+  const reportPath = args['report-path'] || './test-results';
+  if (!fs.existsSync(reportPath)) {
+    fs.mkdirSync(reportPath, { recursive: true });
+  }
+  const jsonPath = path.join(reportPath, 'crawl-summary.json');
+  fs.writeFileSync(jsonPath, JSON.stringify(summary, null, 2));
+  const htmlPath = path.join(reportPath, 'crawl-summary.html');
+  fs.writeFileSync(htmlPath, generateHTMLReport(summary));
+
+  const count = (status: string) => summary.pages.filter(page => page.status === status).length;
+  console.log(`Crawled ${count('extracted')} pages, ${count('duplicate')} duplicates skipped, ${count('failed')} failed`);
+  console.log(`Crawl summary saved to ${jsonPath} and ${htmlPath}`);
+
+  if (count('failed') > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('Error:', error);
+  process.exit(1);
+});
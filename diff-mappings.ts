@@ -0,0 +1,258 @@
+import minimist from 'minimist';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DOMMonitor } from './dom-monitor';
+import { DOMElement } from './utils/semantic-helper';
+import { readMappingFile } from './utils/mapping-file';
+import { ChangedElement, diffMappings, MappingDiff } from './utils/mapping-diff';
+import { reassociateStableIds } from './utils/element-fingerprint';
+import { REPORT_STYLES } from './utils/report-styles';
+
+interface DiffRow {
+  change: string;
+  tagName: string;
+  semanticKey: string;
+  details: string;
+}
+
+/**
+ * Extracts the elements of a page with a fresh DOMMonitor run, without writing a mapping file
+ */
+async function extractFreshElements(url: string, args: minimist.ParsedArgs): Promise<DOMElement[]> {
+  const monitor = new DOMMonitor({
+    featureName: args['feature-name'],
+    ...(args['element-selector'] ? { elementSelector: args['element-selector'] } : {})
+  });
+
+  try {
+    await monitor.init();
+    await monitor.navigateTo(url);
+    const elements = await monitor.extractDOMElements();
+    return await monitor.generateSemanticKeys(elements);
+  } finally {
+    await monitor.close();
+  }
+}
+
+function describeChange(change: ChangedElement): string {
+  const details: string[] = [];
+  if (change.changes.includes('renamed')) {
+    details.push(`key ${change.before.semanticKey || '(none)'} -> ${change.after.semanticKey || '(none)'}`);
+  }
+  if (change.changes.includes('moved')) {
+    details.push(`xpath ${change.before.xpath} -> ${change.after.xpath}`);
+  }
+  if (change.changes.includes('text')) {
+    details.push(`text "${truncate(change.before.innerText)}" -> "${truncate(change.after.innerText)}"`);
+  }
+  if (change.changes.includes('attributes')) {
+    details.push('attributes changed');
+  }
+  if (change.matchedBy === 'similarity') {
+    details.push(`matched by similarity ${change.similarity}`);
+  }
+  return details.join('; ');
+}
+
+function truncate(text?: string, length: number = 40): string {
+  const value = (text || '').replace(/\s+/g, ' ').trim();
+  return value.length > length ? `${value.substring(0, length)}...` : value;
+}
+
+function toRows(diff: MappingDiff): DiffRow[] {
+  return [
+    ...diff.added.map(element => ({
+      change: 'added',
+      tagName: element.tagName,
+      semanticKey: element.semanticKey || '',
+      details: element.xpath
+    })),
+    ...diff.removed.map(element => ({
+      change: 'removed',
+      tagName: element.tagName,
+      semanticKey: element.semanticKey || '',
+      details: element.xpath
+    })),
+    ...diff.changed.map(change => ({
+      change: change.changes.join(', '),
+      tagName: change.after.tagName,
+      semanticKey: change.after.semanticKey || change.before.semanticKey || '',
+      details: describeChange(change)
+    }))
+  ];
+}
+
+/**
+ * Print the diff as a plain text table
+ */
+function printTable(diff: MappingDiff): void {
+  const rows = toRows(diff);
+  console.log(`${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed, ${diff.unchanged} unchanged`);
+  if (rows.length === 0) {
+    return;
+  }
+
+  const headers: DiffRow = { change: 'Change', tagName: 'Tag', semanticKey: 'Semantic key', details: 'Details' };
+  const columns: Array<keyof DiffRow> = ['change', 'tagName', 'semanticKey'];
+  const widths = columns.map(column => Math.max(...[headers, ...rows].map(row => row[column].length)));
+  const format = (row: DiffRow) => columns.map((column, i) => row[column].padEnd(widths[i])).join('  ') + `  ${row.details}`;
+
+  console.log('');
+  console.log(format(headers));
+  console.log(widths.map(width => '-'.repeat(width)).join('  ') + '  -------');
+  rows.forEach(row => console.log(format(row)));
+}
+
+/**
+ * JSON form of the diff, with each element reduced to the fields that identify it
+ */
+function toJSON(diff: MappingDiff, before: string, after: string) {
+  const summarize = (element: DOMElement) => ({
+    stableId: element.stableId,
+    semanticKey: element.semanticKey,
+    tagName: element.tagName,
+    xpath: element.xpath,
+    innerText: element.innerText
+  });
+
+  return {
+    before,
+    after,
+    generated: new Date().toISOString(),
+    summary: {
+      added: diff.added.length,
+      removed: diff.removed.length,
+      changed: diff.changed.length,
+      unchanged: diff.unchanged
+    },
+    added: diff.added.map(summarize),
+    removed: diff.removed.map(summarize),
+    changed: diff.changed.map(change => ({
+      changes: change.changes,
+      matchedBy: change.matchedBy,
+      similarity: change.similarity,
+      before: summarize(change.before),
+      after: summarize(change.after)
+    }))
+  };
+}
+
+/**
+ * Generate an HTML report of the diff, styled like the DOM Monitor report
+ */
+function generateHTMLReport(diff: MappingDiff, before: string, after: string): string {
+  const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+  const rows = toRows(diff);
+
+  return `
+  <!DOCTYPE html>
+  <html>
+  <head>
+    <title>Mapping Diff - ${escapeHtml(after)}</title>
+    <style>
+      ${REPORT_STYLES}
+      .added { color: #009900; font-weight: bold; }
+      .removed { color: #cc0000; font-weight: bold; }
+      .changed { color: #cc6600; font-weight: bold; }
+    </style>
+  </head>
+  <body>
+    <h1>Mapping Diff</h1>
+    <div class="metadata">
+      <p>Before: ${escapeHtml(before)}</p>
+      <p>After: ${escapeHtml(after)}</p>
+      <p><span class="added">${diff.added.length} added</span>, <span class="removed">${diff.removed.length} removed</span>, <span class="changed">${diff.changed.length} changed</span>, ${diff.unchanged} unchanged</p>
+      <p>Generated: ${new Date().toLocaleString()}</p>
+    </div>
+
+    ${rows.length === 0 ? '<p>No differences.</p>' : `
+    <table>
+      <tr><th>Change</th><th>Tag</th><th>Semantic key</th><th>Details</th></tr>
+      ${rows.map(row => `
+        <tr>
+          <td class="${row.change === 'added' || row.change === 'removed' ? row.change : 'changed'}">${escapeHtml(row.change)}</td>
+          <td><span class="tag">${escapeHtml(row.tagName)}</span></td>
+          <td><span class="semantic">${escapeHtml(row.semanticKey)}</span></td>
+          <td>${escapeHtml(row.details)}</td>
+        </tr>
+      `).join('')}
+    </table>`}
+  </body>
+  </html>
+  `;
+}
+
+async function main() {
+  const args = minimist(process.argv.slice(2));
+
+  if (args.help || !args.before) {
+    console.log('Usage:');
+    console.log('  npm run diff-mappings -- --before old.json --after new.json [options]');
+    console.log('  npm run diff-mappings -- --before old.json [--url https://example.com] [options]');
+    console.log('');
+    console.log('Options:');
+    console.log('  --before           Mapping file to compare from');
+    console.log('  --after            Mapping file to compare to');
+    console.log('  --url              Compare against a fresh extraction of this URL (default: the URL of --before)');
+    console.log('  --feature-name     Feature name for the fresh extraction');
+    console.log('  --element-selector Element selector for the fresh extraction');
+    console.log('  --min-similarity   Minimum similarity (0-1) to pair elements whose stable ID changed (default: 0.6)');
+    console.log('  --format           Output format (table, json, html, all) (default: table)');
+    console.log('  --output-path      Output directory for JSON and HTML reports (default: ./mappings/diffs)');
+    console.log('  --help             Show this help message');
+    process.exit(args.help ? 0 : 1);
+  }
+
+  const beforeMapping = readMappingFile(args.before);
+  let afterLabel: string;
+  let afterElements: DOMElement[];
+  if (args.after) {
+    afterLabel = args.after;
+    afterElements = readMappingFile(args.after).elements;
+  } else {
+    const url = args.url || beforeMapping.metadata.url;
+    if (!url) {
+      console.error(`Error: ${args.before} has no URL in its metadata, pass --after or --url`);
+      process.exit(1);
+    }
+    console.log(`Extracting ${url} to compare against ${args.before}`);
+    afterLabel = url;
+    // Fresh stable IDs are carried over from the mapping file, as saving the extraction would
+    const fresh = await extractFreshElements(url, args);
+    afterElements = reassociateStableIds(beforeMapping.elements, fresh).elements;
+  }
+
+  const minSimilarity = args['min-similarity'] !== undefined ? parseFloat(args['min-similarity']) : undefined;
+  const diff = diffMappings(beforeMapping.elements, afterElements, minSimilarity);
+  const format = args.format || 'table';
+
+  if (format === 'table' || format === 'all') {
+    printTable(diff);
+  }
+
+  if (format === 'json' || format === 'html' || format === 'all') {
+    const outputPath = args['output-path'] || './mappings/diffs';
+    fs.mkdirSync(outputPath, { recursive: true });
+    const baseName = `${path.basename(args.before, '.json')}-diff`;
+
+    if (format === 'json' || format === 'all') {
+      const jsonPath = path.join(outputPath, `${baseName}.json`);
+      fs.writeFileSync(jsonPath, JSON.stringify(toJSON(diff, args.before, afterLabel), null, 2));
+      console.log(`JSON diff saved to ${jsonPath}`);
+    }
+    if (format === 'html' || format === 'all') {
+      const htmlPath = path.join(outputPath, `${baseName}.html`);
+      fs.writeFileSync(htmlPath, generateHTMLReport(diff, args.before, afterLabel));
+      console.log(`HTML diff saved to ${htmlPath}`);
+    }
+  }
+}
+
+main().catch(error => {
+  console.error('Error:', error);
+  process.exit(1);
+});
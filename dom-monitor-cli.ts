@@ -1,5 +1,6 @@
 import minimist from 'minimist';
 import { DOMMonitor } from './dom-monitor';
+import { loadLoginRecipe } from './utils/auth';
 import path from 'path';
 
 async function main() {
@@ -15,6 +16,15 @@ async function main() {
     console.log('  --timeout          Wait timeout in milliseconds (default: 5000)');
     console.log('  --no-screenshots   Disable screenshot generation');
     console.log('  --feature-name     Add feature name prefix to semantic keys');
+    console.log('  --no-shadow-dom    Do not descend into open shadow roots');
+    console.log('  --no-frames        Do not descend into same-origin iframes');
+    console.log('  --accessibility    Capture ARIA roles, accessible names and states');
+    console.log('  --vector-index     Build the vector index next to the mapping (default: semantic.config.json)');
+    console.log('  --merge            Merge into the existing mapping, keeping locked keys and marking vanished elements stale');
+    console.log('  --no-collections   Map repeated list items, rows and cards one by one instead of as collections');
+    console.log('  --storage-state    Playwright storage state file to open pages with (saved there after --login)');
+    console.log('  --login            Login recipe JSON file, run before extracting');
+    console.log('  --states           States file with the actions reaching modals, menus and wizard steps to capture');
     process.exit(1);
   }
 
@@ -26,7 +36,16 @@ async function main() {
     waitForSelector: args['wait-for'],
     waitTimeout: args.timeout ? parseInt(args.timeout) : 5000,
     outputPath: args['output-path'] || './mappings',
-    featureName: args['feature-name']
+    featureName: args['feature-name'],
+    pierceShadowDom: args['shadow-dom'] !== false,
+    includeFrames: args.frames !== false,
+    extractionMode: args.accessibility ? 'accessibility' as const : 'dom' as const,
+    ...(args['vector-index'] ? { vectorIndex: true } : {}),
+    merge: args.merge || false,
+    detectCollections: args.collections !== false,
+    storageState: args['storage-state'],
+    login: args.login ? loadLoginRecipe(args.login) : undefined,
+    states: args.states
   };
 
   try {
@@ -55,11 +74,8 @@ async function main() {
 
     // Take a screenshot if not disabled
     if (!skipScreenshots) {
-      // Extract base filename from URL for screenshot
-      const urlObj = new URL(url);
-      const hostname = urlObj.hostname.replace(/\./g, '_');
-      const pathname = urlObj.pathname.replace(/\//g, '_');
-      const screenshotPath = path.join(options.outputPath, `${hostname}${pathname}.png`);
+      // Named after the mapping file, which follows the route pattern the URL matches
+      const screenshotPath = path.join(options.outputPath, `${path.basename(reports.jsonPath, '.json')}.png`);
       
       console.log('Taking screenshot...');
       await monitor.takeScreenshot(screenshotPath, true, skipScreenshots);
@@ -68,6 +84,10 @@ async function main() {
       console.log('Screenshot generation skipped (--no-screenshots flag provided)');
     }
 
+    for (const stateReport of await monitor.captureStates(url)) {
+      console.log(`State '${stateReport.state}' saved to ${stateReport.jsonPath}`);
+    }
+
     await monitor.close();
     console.log('Done!');
   } catch (error) {
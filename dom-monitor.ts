@@ -1,8 +1,20 @@
-import { Browser, BrowserContext, Page, chromium } from '@playwright/test';
+import { Browser, BrowserContext, FrameLocator, Page, chromium } from '@playwright/test';
 import * as fs from 'fs';
 import * as path from 'path';
 import { MCPService } from './services/mcp-ai-service';
-import * as crypto from 'crypto';
+import { DescriptionScorer } from './utils/description-scorer';
+import { loadSemanticConfig } from './utils/semantic-config';
+import { createEmbeddingProvider, updateVectorIndex } from './utils/vector-index';
+import { listMappingFiles, readMappingFile, writeMappingFile } from './utils/mapping-file';
+import { REPORT_STYLES } from './utils/report-styles';
+import { mergeMappingElements } from './utils/mapping-merge';
+import { assignStableIds, ElementNeighbors, reassociateStableIds } from './utils/element-fingerprint';
+import { installNeighborsHelper, NEIGHBORS_HELPER } from './utils/element-neighbors';
+import { KeyCollision, resolveKeyCollisions } from './utils/key-collisions';
+import { CollectionTemplateElement, ElementAncestor, ElementCollection } from './utils/semantic-helper';
+import { findRoute, getMappingBaseName } from './utils/page-routes';
+import { LoginRecipe, performLogin, StorageState } from './utils/auth';
+import { excludeBaseElements, findPageStates, loadPageStates, PageStates, runStateActions } from './utils/page-states';
 
 interface DOMMonitorOptions {
   elementSelector?: string;
@@ -12,6 +24,64 @@ interface DOMMonitorOptions {
   featureName?: string;
   useAI?: boolean;
   useMCP?: boolean;
+  pierceShadowDom?: boolean;
+  includeFrames?: boolean;
+  extractionMode?: 'dom' | 'accessibility';
+  verifySelectors?: boolean;
+  vectorIndex?: boolean;
+  // Merge into the existing mapping file instead of overwriting it
+  merge?: boolean;
+  // Map repeated lists, table rows and cards as collections with an item template
+  detectCollections?: boolean;
+  // Fewest items a repeated structure needs to become a collection
+  minCollectionItems?: number;
+  // Playwright storage state (file or object) every page is opened with, e.g. saved after logging in
+  storageState?: StorageState;
+  // Login run once when the browser starts; its state is saved to storageState when that is a file path
+  login?: LoginRecipe;
+  // States to capture after the page as loaded, or the path of a states file
+  states?: PageStates | string;
+  // Browser to open pages in, e.g. from a BrowserPool; close() then leaves it running
+  browser?: Browser;
+}
+
+// A repeated structure as found on the page, before it is given semantic keys
+interface ExtractedCollection {
+  containerSelector: string;
+  itemSelector: string;
+  itemTag: string;
+  itemCount: number;
+  // Id, test id, label or class of the container, used to name the collection
+  name?: string;
+  heading?: string;
+  framePath?: string[];
+  shadowHosts?: string[];
+  template: Array<{
+    tagName: string;
+    attributes: Record<string, string>;
+    innerText?: string;
+    role?: string;
+    selector: string;
+    optional?: boolean;
+  }>;
+}
+
+interface AccessibilityInfo {
+  role?: string;
+  name?: string;
+  description?: string;
+  states?: {
+    checked?: boolean | 'mixed';
+    expanded?: boolean;
+    disabled?: boolean;
+  };
+}
+
+interface SelectorCandidate {
+  strategy: 'testid' | 'id' | 'role' | 'label' | 'text' | 'attributes' | 'relative-xpath' | 'xpath' | 'healed';
+  selector: string;
+  unique?: boolean;
+  matchCount?: number;
 }
 
 interface DOMElement {
@@ -25,7 +95,22 @@ interface DOMElement {
   featureName?: string;
   url?: string;
   stableId?: string;
+  stableIdConfidence?: number;
+  neighbors?: ElementNeighbors;
+  ancestors?: ElementAncestor[];
   alternativeNames?: string[];
+  framePath?: string[];
+  shadowHosts?: string[];
+  cssPath?: string;
+  accessibility?: AccessibilityInfo;
+  selectorCandidates?: SelectorCandidate[];
+  alternativeSelectors?: string[];
+  lastUpdated?: string;
+  lastSeen?: string;
+  stale?: boolean;
+  locked?: boolean;
+  state?: string;
+  revealPath?: Array<{ click: { selector: string } }>;
 }
 
 export class DOMMonitor {
@@ -35,12 +120,23 @@ export class DOMMonitor {
   private browserContext: BrowserContext | null = null;
   private currentUrl: string | null = null;
   private mcpService: MCPService | null = null;
+  // Collections found by the last extraction
+  private collections: ElementCollection[] = [];
+  // Storage state new contexts are created with
+  private storageState: StorageState;
 
   constructor(options: DOMMonitorOptions = {}) {
     this.options = {
       elementSelector: '*[id], button, a, input, select, h1, h2, h3, label',
       waitTimeout: 5000,
       outputPath: './mappings',
+      pierceShadowDom: true,
+      includeFrames: true,
+      extractionMode: 'dom',
+      verifySelectors: true,
+      detectCollections: true,
+      minCollectionItems: 3,
+      vectorIndex: loadSemanticConfig().vectorIndex?.enabled === true,
       ...options
     };
     
@@ -49,7 +145,14 @@ export class DOMMonitor {
   }
 
   async init() {
-    this.browser = await chromium.launch();
+    this.browser = this.options.browser || await chromium.launch();
+    this.storageState = this.options.storageState;
+    
+    // Log in once, every page opened afterwards reuses the state
+    if (this.options.login) {
+      const statePath = typeof this.options.storageState === 'string' ? this.options.storageState : undefined;
+      this.storageState = await performLogin(this.browser, this.options.login, statePath);
+    }
   }
 
   async navigateTo(url: string) {
@@ -57,7 +160,11 @@ export class DOMMonitor {
       await this.init();
     }
     
-    this.browserContext = await this.browser!.newContext();
+    // Each navigation starts from a clean context, so states reached on the previous page don't carry over
+    if (this.browserContext) {
+      await this.browserContext.close();
+    }
+    this.browserContext = await this.browser!.newContext({ storageState: this.storageState });
     this.page = await this.browserContext.newPage();
     await this.page.goto(url);
     this.currentUrl = url;
@@ -74,32 +181,569 @@ export class DOMMonitor {
     }
   }
 
+  /**
+   * Extracts and saves each UI state defined for a page in the states option, after the page
+   * as loaded has been saved. Every state starts from a fresh navigation to the URL; a state
+   * whose actions fail is reported and skipped.
+   * @returns The reports of the captured states
+   */
+  async captureStates(url: string): Promise<Array<{ state: string, jsonPath: string, htmlPath: string }>> {
+    if (!this.options.states) {
+      return [];
+    }
+    
+    const allStates = typeof this.options.states === 'string' ? loadPageStates(this.options.states) : this.options.states;
+    const states = findPageStates(allStates, url, loadSemanticConfig());
+    const reports: Array<{ state: string, jsonPath: string, htmlPath: string }> = [];
+    
+    for (const [state, actions] of Object.entries(states)) {
+      console.log(`Capturing state '${state}' of ${url}...`);
+      try {
+        await this.navigateTo(url);
+        await this.waitForNetworkIdle();
+        await runStateActions(this.page, actions, this.options.outputPath!);
+        await this.waitForNetworkIdle();
+        
+        const elements = await this.generateSemanticKeys(await this.extractDOMElements());
+        reports.push({ state, ...await this.saveReport(url, elements, state) });
+      } catch (error) {
+        console.error(`Could not capture state '${state}' of ${url}:`, error);
+      }
+    }
+    
+    return reports;
+  }
+
+  /**
+   * URL the page ended up on after redirects
+   */
+  getPageUrl(): string {
+    if (!this.page) {
+      throw new Error('Page not initialized. Call navigateTo first.');
+    }
+
+    return this.page.url();
+  }
+
+  /**
+   * Absolute URLs of the links on the current page, without fragments and duplicates
+   * Download links are left out
+   */
+  async extractLinks(): Promise<string[]> {
+    if (!this.page) {
+      throw new Error('Page not initialized. Call navigateTo first.');
+    }
+
+    const hrefs = await this.page.$$eval('a[href], area[href]', links => links
+      .filter(link => !link.hasAttribute('download'))
+      .map(link => (link as HTMLAnchorElement).href));
+    return [...new Set(hrefs.map(href => href.split('#')[0]).filter(Boolean))];
+  }
+
   async extractDOMElements(): Promise<DOMElement[]> {
     if (!this.page) {
       throw new Error('Page not initialized. Call navigateTo first.');
     }
 
-    const selector = this.options.elementSelector || '*[id], button, a, input, select, h1, h2, h3, label';
+    const captureAccessibility = this.options.extractionMode === 'accessibility';
+    let selector = this.options.elementSelector || '*[id], button, a, input, select, h1, h2, h3, label';
+    if (captureAccessibility) {
+      // ARIA widgets are often plain divs and spans, so pick them up by role and label as well
+      selector += ', [role], [aria-label], textarea';
+    }
     
-    const elements = await this.page.evaluate((selector) => {
-      const elements = Array.from(document.querySelectorAll(selector));
-      return elements.map(element => {
-        // Get XPath
-        const getXPath = (el: Element): string => {
-          if (!el.parentElement) return '';
-          const siblings = Array.from(el.parentElement.children);
-          const index = siblings.indexOf(el) + 1;
-          const tagName = el.tagName.toLowerCase();
-          const siblingTag = siblings.filter(sibling => 
-            sibling.tagName.toLowerCase() === tagName
-          );
-          
-          const xpathIndex = siblingTag.length > 1 ? 
-            `[${siblingTag.indexOf(el) + 1}]` : '';
+    await this.page.evaluate(installNeighborsHelper, NEIGHBORS_HELPER);
+    const { elements, collections } = await this.page.evaluate(({ 
+      selector, pierceShadowDom, includeFrames, captureAccessibility, detectCollections, minCollectionItems, neighborsHelper 
+    }) => {
+      const results: Array<{
+        tagName: string;
+        id?: string;
+        classes?: string[];
+        attributes: Record<string, string>;
+        innerText?: string;
+        xpath: string;
+        framePath?: string[];
+        shadowHosts?: string[];
+        cssPath?: string;
+        accessibility?: AccessibilityInfo;
+        selectorCandidates: SelectorCandidate[];
+        neighbors: ElementNeighbors;
+        ancestors?: ElementAncestor[];
+      }> = [];
+      const collections: ExtractedCollection[] = [];
+
+      // Get XPath (relative to the owning document or shadow root)
+      const getXPath = (el: Element): string => {
+        if (!el.parentElement) return '';
+        const siblings = Array.from(el.parentElement.children);
+        const tagName = el.tagName.toLowerCase();
+        const siblingTag = siblings.filter(sibling => 
+          sibling.tagName.toLowerCase() === tagName
+        );
+        
+        const xpathIndex = siblingTag.length > 1 ? 
+          `[${siblingTag.indexOf(el) + 1}]` : '';
+        
+        return `${getXPath(el.parentElement)}/${tagName}${xpathIndex}`;
+      };
+
+      // Get a CSS path relative to the shadow root that contains the element.
+      // XPath does not pierce shadow roots, so this is what selectors use instead.
+      const getCssPath = (el: Element): string => {
+        const parts: string[] = [];
+        let current: Element | null = el;
+        while (current) {
+          const tagName = current.tagName.toLowerCase();
+          const parent: Node | null = current.parentNode;
+          const siblings = parent ? Array.from((parent as ParentNode).children)
+            .filter(sibling => sibling.tagName === current!.tagName) : [];
+          parts.unshift(siblings.length > 1 ? 
+            `${tagName}:nth-of-type(${siblings.indexOf(current) + 1})` : tagName);
+          current = current.parentElement;
+        }
+        return parts.join(' > ');
+      };
+
+      const escapeCss = (value: string) => typeof CSS !== 'undefined' && CSS.escape ? CSS.escape(value) : value;
+
+      // Build a selector for a shadow host, scoped to the root it lives in
+      const getHostSelector = (host: Element, root: Document | ShadowRoot): string => {
+        const tagName = host.tagName.toLowerCase();
+        if (host.id) return `${tagName}#${escapeCss(host.id)}`;
+        const testId = host.getAttribute('data-testid');
+        if (testId) return `${tagName}[data-testid=${JSON.stringify(testId)}]`;
+        const sameTag = Array.from(root.querySelectorAll(tagName));
+        return sameTag.length > 1 ? `${tagName} >> nth=${sameTag.indexOf(host)}` : tagName;
+      };
+
+      // Build a selector for an iframe so it can be used with page.frameLocator()
+      const getFrameSelector = (frame: Element): string => {
+        const tagName = frame.tagName.toLowerCase();
+        if (frame.id) return `${tagName}#${escapeCss(frame.id)}`;
+        for (const attr of ['data-testid', 'name', 'title', 'src']) {
+          const value = frame.getAttribute(attr);
+          if (value) return `${tagName}[${attr}=${JSON.stringify(value)}]`;
+        }
+        return `xpath=${getXPath(frame)}`;
+      };
+
+      // Compute the ARIA role, taking implicit roles of native elements into account
+      const getRole = (el: Element): string | undefined => {
+        const explicitRole = el.getAttribute('role');
+        if (explicitRole) return explicitRole.trim().split(/\s+/)[0];
+        
+        const tagName = el.tagName.toLowerCase();
+        const type = (el.getAttribute('type') || 'text').toLowerCase();
+        switch (tagName) {
+          case 'a': return el.hasAttribute('href') ? 'link' : undefined;
+          case 'button': case 'summary': return 'button';
+          case 'select': return el.hasAttribute('multiple') || Number(el.getAttribute('size')) > 1 ? 'listbox' : 'combobox';
+          case 'textarea': return 'textbox';
+          case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': return 'heading';
+          case 'nav': return 'navigation';
+          case 'main': return 'main';
+          case 'header': return 'banner';
+          case 'footer': return 'contentinfo';
+          case 'aside': return 'complementary';
+          case 'form': return 'form';
+          case 'dialog': return 'dialog';
+          case 'ul': case 'ol': return 'list';
+          case 'li': return 'listitem';
+          case 'table': return 'table';
+          case 'img': return el.getAttribute('alt') === '' ? 'presentation' : 'img';
+          case 'section': return el.hasAttribute('aria-label') || el.hasAttribute('aria-labelledby') ? 'region' : undefined;
+          case 'input':
+            if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+            if (type === 'checkbox') return 'checkbox';
+            if (type === 'radio') return 'radio';
+            if (type === 'range') return 'slider';
+            if (type === 'number') return 'spinbutton';
+            if (type === 'search') return 'searchbox';
+            if (type === 'hidden') return undefined;
+            return 'textbox';
+          default: return undefined;
+        }
+      };
+
+      // Text of the elements referenced by an IDREF list attribute (aria-labelledby, aria-describedby)
+      const getReferencedText = (el: Element, attr: string): string => {
+        const ids = (el.getAttribute(attr) || '').split(/\s+/).filter(Boolean);
+        const root = el.getRootNode() as Document | ShadowRoot;
+        return ids
+          .map(id => root.getElementById(id)?.textContent?.trim() || '')
+          .filter(Boolean)
+          .join(' ');
+      };
+
+      // Name from content, including alt text and labels of icons nested inside the element
+      const getContentName = (el: Element): string => {
+        const parts: string[] = [];
+        el.childNodes.forEach(child => {
+          if (child.nodeType === Node.TEXT_NODE) {
+            parts.push(child.textContent || '');
+          } else if (child.nodeType === Node.ELEMENT_NODE) {
+            const childElement = child as Element;
+            if (childElement.getAttribute('aria-hidden') === 'true') return;
+            const label = childElement.getAttribute('aria-label') || 
+              (childElement.tagName.toLowerCase() === 'img' ? childElement.getAttribute('alt') : null);
+            parts.push(label || getContentName(childElement));
+          }
+        });
+        return parts.join(' ').replace(/\s+/g, ' ').trim();
+      };
+
+      const getAccessibleName = (el: Element, role?: string): string | undefined => {
+        const labelledBy = getReferencedText(el, 'aria-labelledby');
+        if (labelledBy) return labelledBy;
+        
+        const ariaLabel = el.getAttribute('aria-label');
+        if (ariaLabel && ariaLabel.trim()) return ariaLabel.trim();
+        
+        const labels = (el as HTMLInputElement).labels;
+        if (labels && labels.length > 0) {
+          const labelText = Array.from(labels).map(label => label.textContent?.trim() || '').join(' ').trim();
+          if (labelText) return labelText;
+        }
+        
+        const tagName = el.tagName.toLowerCase();
+        const type = (el.getAttribute('type') || '').toLowerCase();
+        if ((tagName === 'img' || type === 'image') && el.getAttribute('alt')) return el.getAttribute('alt')!;
+        if (tagName === 'input' && ['button', 'submit', 'reset'].includes(type)) {
+          return (el as HTMLInputElement).value || (type === 'submit' ? 'Submit' : type === 'reset' ? 'Reset' : undefined);
+        }
+        
+        const nameFromContent = ['button', 'link', 'heading', 'checkbox', 'radio', 'tab', 'menuitem', 
+          'menuitemcheckbox', 'menuitemradio', 'option', 'switch', 'treeitem', 'cell', 'columnheader', 
+          'rowheader', 'tooltip', 'listitem'];
+        if (role && nameFromContent.includes(role)) {
+          const contentName = getContentName(el);
+          if (contentName) return contentName;
+        }
+        
+        return el.getAttribute('title') || el.getAttribute('placeholder') || undefined;
+      };
+
+      const getAccessibilityInfo = (el: Element): AccessibilityInfo => {
+        const role = getRole(el);
+        const name = getAccessibleName(el, role);
+        const title = el.getAttribute('title');
+        const description = getReferencedText(el, 'aria-describedby') || 
+          (title && title !== name ? title : undefined);
+        
+        const states: NonNullable<AccessibilityInfo['states']> = {};
+        const ariaChecked = el.getAttribute('aria-checked');
+        if (ariaChecked) {
+          states.checked = ariaChecked === 'mixed' ? 'mixed' : ariaChecked === 'true';
+        } else if (role === 'checkbox' || role === 'radio') {
+          states.checked = (el as HTMLInputElement).indeterminate ? 'mixed' : !!(el as HTMLInputElement).checked;
+        }
+        const ariaExpanded = el.getAttribute('aria-expanded');
+        if (ariaExpanded) {
+          states.expanded = ariaExpanded === 'true';
+        } else if (el.tagName.toLowerCase() === 'details') {
+          states.expanded = (el as HTMLDetailsElement).open;
+        }
+        if ((el as HTMLButtonElement).disabled || el.getAttribute('aria-disabled') === 'true') {
+          states.disabled = true;
+        }
+        
+        return {
+          role,
+          name: name ? name.substring(0, 200) : undefined,
+          description: description || undefined,
+          states: Object.keys(states).length > 0 ? states : undefined
+        };
+      };
+
+      // XPath string literal; XPath 1.0 has no escapes, so values with both quote kinds are concatenated
+      const xpathLiteral = (value: string): string => {
+        if (!value.includes('"')) return `"${value}"`;
+        if (!value.includes("'")) return `'${value}'`;
+        return `concat(${value.split('"').map(part => `"${part}"`).join(`, '"', `)})`;
+      };
+
+      // XPath anchored to the nearest ancestor with an id, so unrelated layout changes don't break it
+      const getRelativeXPath = (el: Element): string | undefined => {
+        const steps: string[] = [];
+        let current: Element | null = el;
+        while (current && current.parentElement) {
+          const tagName: string = current.tagName.toLowerCase();
+          const sameTag: Element[] = Array.from(current.parentElement.children)
+            .filter(sibling => sibling.tagName === current!.tagName);
+          steps.unshift(sameTag.length > 1 ? `${tagName}[${sameTag.indexOf(current) + 1}]` : tagName);
+          current = current.parentElement;
+          if (current.id) {
+            return `//*[@id=${xpathLiteral(current.id)}]/${steps.join('/')}`;
+          }
+        }
+        return undefined;
+      };
+
+      // Surroundings used to recognize the element again when its own text or depth changes
+      const getNeighbors = (window as any)[neighborsHelper] as (el: Element) => ElementNeighbors;
+
+      const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6, [role=heading]';
+      const shortText = (el: Element | null): string | undefined => {
+        const text = (el?.textContent || '').replace(/\s+/g, ' ').trim();
+        return text ? text.substring(0, 50) : undefined;
+      };
+
+      // Candidate selectors, most stable strategy first
+      const getSelectorCandidates = (el: Element, a11y: AccessibilityInfo, shadowHosts: string[]): SelectorCandidate[] => {
+        const candidates: SelectorCandidate[] = [];
+        const tagName = el.tagName.toLowerCase();
+        const quote = (value: string) => JSON.stringify(value);
+        
+        for (const attr of ['data-testid', 'data-test', 'data-qa', 'data-cy']) {
+          const value = el.getAttribute(attr);
+          if (value) candidates.push({ strategy: 'testid', selector: `[${attr}=${quote(value)}]` });
+        }
+        
+        if (el.id) {
+          candidates.push({ 
+            strategy: 'id', 
+            selector: /^[A-Za-z][\w-]*$/.test(el.id) ? `#${el.id}` : `[id=${quote(el.id)}]` 
+          });
+        }
+        
+        if (a11y.role && a11y.name && a11y.name.length <= 80) {
+          candidates.push({ strategy: 'role', selector: `role=${a11y.role}[name=${quote(a11y.name)}]` });
+        }
+        
+        // A control inside its label, or one labelled elsewhere through `for`, matched by the exact label text
+        const labels = Array.from((el as HTMLInputElement).labels || []);
+        const wrappingLabel = labels.find(label => label.contains(el));
+        const label = wrappingLabel || labels[0];
+        const labelText = label ? (label.textContent || '').replace(/\s+/g, ' ').trim() : '';
+        if (labelText && labelText.length <= 80) {
+          candidates.push({
+            strategy: 'label',
+            selector: wrappingLabel ? `label:text-is(${quote(labelText)}) ${tagName}` : `internal:label=${quote(labelText)}s`
+          });
+        }
+        
+        const text = (el.textContent || '').replace(/\s+/g, ' ').trim();
+        if (text && text.length <= 50 && !['input', 'select', 'textarea'].includes(tagName)) {
+          candidates.push({ strategy: 'text', selector: `${tagName}:text-is(${quote(text)})` });
+        }
+        
+        let attributeSelector = '';
+        for (const attr of ['name', 'type', 'placeholder', 'aria-label', 'title', 'href']) {
+          const value = el.getAttribute(attr);
+          if (value && value.length <= 100) attributeSelector += `[${attr}=${quote(value)}]`;
+        }
+        if (attributeSelector) {
+          candidates.push({ strategy: 'attributes', selector: `${tagName}${attributeSelector}` });
+        }
+        
+        if (shadowHosts.length > 0) {
+          // XPath does not pierce shadow roots, chain through the hosts instead
+          candidates.push({ strategy: 'xpath', selector: [...shadowHosts, getCssPath(el)].join(' >> ') });
+        } else {
+          const relativeXPath = getRelativeXPath(el);
+          if (relativeXPath) candidates.push({ strategy: 'relative-xpath', selector: `xpath=${relativeXPath}` });
+          candidates.push({ strategy: 'xpath', selector: `xpath=${getXPath(el)}` });
+        }
+        
+        return candidates;
+      };
+
+      // Repeated structures: sibling items with the same shape, mapped once as an item template.
+      // Menus and tab lists repeat too, but each of their items is a distinct destination.
+      const NOT_COLLECTION_SELECTOR = 'nav, menu, select, datalist, [role=navigation], [role=menu], [role=menubar], [role=tablist]';
+      const getShape = (el: Element, depth: number = 0): string => {
+        const children = depth < 3 ? Array.from(el.children).map(child => getShape(child, depth + 1)).join(',') : '';
+        return `${el.tagName.toLowerCase()}(${children})`;
+      };
+      const matchesOnce = (scope: ParentNode, candidate: string): Element | null => {
+        try {
+          const matches = scope.querySelectorAll(candidate);
+          return matches.length === 1 ? matches[0] : null;
+        } catch (e) {
+          return null;
+        }
+      };
+      
+      const getContainerSelector = (container: Element, root: Document | ShadowRoot): string => {
+        const tagName = container.tagName.toLowerCase();
+        const candidates: string[] = [];
+        if (container.id) candidates.push(`#${escapeCss(container.id)}`);
+        const testId = container.getAttribute('data-testid');
+        if (testId) candidates.push(`[data-testid=${JSON.stringify(testId)}]`);
+        const label = container.getAttribute('aria-label');
+        if (label) candidates.push(`${tagName}[aria-label=${JSON.stringify(label)}]`);
+        if (container.classList.length > 0) {
+          candidates.push(`${tagName}.${Array.from(container.classList).map(escapeCss).join('.')}`);
+        }
+        return candidates.find(candidate => matchesOnce(root, candidate) === container) || getCssPath(container);
+      };
+      
+      // Containers a description can be scoped to, nearest first
+      const ANCESTOR_SELECTOR = 'form, dialog, fieldset, section, article, nav, main, header, footer, aside, ' +
+        '[role=form], [role=dialog], [role=alertdialog], [role=region], [role=navigation], [role=main], ' +
+        '[role=complementary], [role=banner], [role=contentinfo], [role=search], [role=group]';
+      const getAncestors = (el: Element): ElementAncestor[] | undefined => {
+        const root = el.getRootNode() as Document | ShadowRoot;
+        const ancestors: ElementAncestor[] = [];
+        for (let current = el.parentElement; current; current = current.parentElement) {
+          if (!current.matches(ANCESTOR_SELECTOR)) continue;
           
-          return `${getXPath(el.parentElement)}/${tagName}${xpathIndex}`;
+          const legend = current.tagName.toLowerCase() === 'fieldset' ? current.querySelector(':scope > legend') : null;
+          const heading = current.querySelector(HEADING_SELECTOR);
+          const name = getReferencedText(current, 'aria-labelledby') || current.getAttribute('aria-label') || 
+            shortText(legend) || shortText(heading) || current.getAttribute('name') || undefined;
+          ancestors.push({
+            tagName: current.tagName.toLowerCase(),
+            role: getRole(current),
+            name: name ? name.substring(0, 80) : undefined,
+            id: current.id || undefined,
+            selector: getContainerSelector(current, root),
+            xpath: getXPath(current)
+          });
+        }
+        return ancestors.length > 0 ? ancestors : undefined;
+      };
+      
+      // Selector of an element relative to its item that picks at most one element in every item
+      const getItemRelativeSelector = (el: Element, item: Element, items: Element[]): string => {
+        const tagName = el.tagName.toLowerCase();
+        const candidates: string[] = [];
+        for (const attr of ['data-testid', 'data-test', 'data-qa', 'data-cy']) {
+          const value = el.getAttribute(attr);
+          if (value) candidates.push(`[${attr}=${JSON.stringify(value)}]`);
+        }
+        el.classList.forEach(cls => candidates.push(`${tagName}.${escapeCss(cls)}`));
+        for (const attr of ['type', 'name', 'role']) {
+          const value = el.getAttribute(attr);
+          if (value) candidates.push(`${tagName}[${attr}=${JSON.stringify(value)}]`);
+        }
+        candidates.push(tagName);
+        
+        const found = candidates.find(candidate => matchesOnce(item, candidate) === el && 
+          items.every(other => { 
+            try { return other.querySelectorAll(candidate).length <= 1; } catch (e) { return false; } 
+          }));
+        if (found) return found;
+        
+        // Structural path from the item down to the element
+        const steps: string[] = [];
+        for (let current: Element = el; current !== item && current.parentElement; current = current.parentElement) {
+          const sameTag = Array.from(current.parentElement.children).filter(sibling => sibling.tagName === current.tagName);
+          const step = current.tagName.toLowerCase();
+          steps.unshift(sameTag.length > 1 ? `${step}:nth-of-type(${sameTag.indexOf(current) + 1})` : step);
+        }
+        return `:scope > ${steps.join(' > ')}`;
+      };
+      
+      // Elements carrying a different id, href, for or name each are distinct things, not repeated data
+      const IDENTITY_ATTRIBUTES = ['id', 'href', 'for', 'name'];
+      const hasDistinctIdentity = (elements: Element[]): boolean => IDENTITY_ATTRIBUTES.some(attr => {
+        const values = elements.map(el => el.getAttribute(attr));
+        return values.some(value => value !== null) && values.some(value => value !== values[0]);
+      });
+      
+      // Selector of the items relative to their container, from the classes or test id they all share
+      // Null when they share neither, or when it would match other children too and shift nth
+      const getItemSelector = (container: Element, items: Element[]): string | null => {
+        const itemTag = items[0].tagName.toLowerCase();
+        const sharedClasses = Array.from(items[0].classList).filter(cls => items.every(item => item.classList.contains(cls)));
+        const testIdAttr = ['data-testid', 'data-test', 'data-qa', 'data-cy'].find(attr => 
+          items[0].hasAttribute(attr) && items.every(item => item.getAttribute(attr) === items[0].getAttribute(attr)));
+        if (sharedClasses.length === 0 && !testIdAttr) return null;
+        
+        const itemSelector = `:scope > ${itemTag}${sharedClasses.map(cls => `.${escapeCss(cls)}`).join('')}` +
+          (testIdAttr ? `[${testIdAttr}=${JSON.stringify(items[0].getAttribute(testIdAttr))}]` : '');
+        try {
+          const matches = Array.from(container.querySelectorAll(itemSelector));
+          return matches.length === items.length && matches.every((match, index) => match === items[index]) ? itemSelector : null;
+        } catch (e) {
+          return null;
+        }
+      };
+      
+      const getTemplate = (items: Element[]): ExtractedCollection['template'] | null => {
+        const template: ExtractedCollection['template'] = [];
+        const seen = new Set<string>();
+        for (const item of items) {
+          for (const el of Array.from(item.querySelectorAll(selector))) {
+            const relativeSelector = getItemRelativeSelector(el, item, items);
+            if (seen.has(relativeSelector)) continue;
+            seen.add(relativeSelector);
+            
+            const counterparts = items
+              .map(other => other.querySelector(relativeSelector))
+              .filter((match): match is Element => !!match);
+            if (hasDistinctIdentity(counterparts)) {
+              return null;
+            }
+            const attributes: Record<string, string> = {};
+            Array.from(el.attributes).forEach(attr => {
+              if (counterparts.every(other => other.getAttribute(attr.name) === attr.value)) {
+                attributes[attr.name] = attr.value;
+              }
+            });
+            
+            const text = (el.textContent || '').replace(/\s+/g, ' ').trim();
+            template.push({
+              tagName: el.tagName.toLowerCase(),
+              attributes,
+              innerText: text && counterparts.length > 1 && 
+                counterparts.every(other => (other.textContent || '').replace(/\s+/g, ' ').trim() === text) ? text : undefined,
+              role: getRole(el),
+              selector: relativeSelector,
+              optional: counterparts.length < items.length ? true : undefined
+            });
+          }
+        }
+        return template.length > 0 ? template : null;
+      };
+      
+      // Finds the collections of a root; the elements of their items stay in the element list too
+      const findCollections = (root: Document | ShadowRoot, framePath: string[], shadowHosts: string[]): void => {
+        const itemSet = new Set<Element>();
+        const insideItem = (el: Element) => {
+          for (let current: Element | null = el; current; current = current.parentElement) {
+            if (itemSet.has(current)) return true;
+          }
+          return false;
         };
+        
+        root.querySelectorAll('*').forEach(container => {
+          if (container.children.length < minCollectionItems || insideItem(container) || container.closest(NOT_COLLECTION_SELECTOR)) return;
+          
+          const groups = new Map<string, Element[]>();
+          Array.from(container.children).forEach(child => {
+            if (child.children.length === 0) return;
+            const shape = getShape(child);
+            groups.set(shape, [...(groups.get(shape) || []), child]);
+          });
+          
+          groups.forEach(items => {
+            if (items.length < minCollectionItems || hasDistinctIdentity(items)) return;
+            const itemSelector = getItemSelector(container, items);
+            const template = itemSelector ? getTemplate(items) : null;
+            if (!itemSelector || !template) return;
+            
+            const sharedClasses = Array.from(items[0].classList).filter(cls => items.every(item => item.classList.contains(cls)));
+            collections.push({
+              containerSelector: getContainerSelector(container, root),
+              itemSelector,
+              itemTag: items[0].tagName.toLowerCase(),
+              itemCount: items.length,
+              name: container.id || container.getAttribute('data-testid') || container.getAttribute('aria-label') || 
+                container.classList[0] || sharedClasses[0],
+              heading: getNeighbors(container).heading,
+              framePath: framePath.length > 0 ? framePath : undefined,
+              shadowHosts: shadowHosts.length > 0 ? shadowHosts : undefined,
+              template
+            });
+            items.forEach(item => itemSet.add(item));
+          });
+        });
+      };
 
+      const serialize = (element: Element, framePath: string[], shadowHosts: string[]) => {
         // Get element attributes
         const attributes: Record<string, string> = {};
         Array.from(element.attributes).forEach(attr => {
@@ -128,6 +772,8 @@ export class DOMMonitor {
           }
         }
 
+        const accessibility = getAccessibilityInfo(element);
+
         return {
           tagName: element.tagName.toLowerCase(),
           id: element.id || undefined,
@@ -135,9 +781,69 @@ export class DOMMonitor {
           attributes,
           innerText: element.textContent?.trim() || undefined,
           xpath: getXPath(element),
+          framePath: framePath.length > 0 ? framePath : undefined,
+          shadowHosts: shadowHosts.length > 0 ? shadowHosts : undefined,
+          cssPath: shadowHosts.length > 0 ? getCssPath(element) : undefined,
+          accessibility: captureAccessibility ? accessibility : undefined,
+          selectorCandidates: getSelectorCandidates(element, accessibility, shadowHosts),
+          neighbors: getNeighbors(element),
+          ancestors: getAncestors(element),
         };
-      });
-    }, selector);
+      };
+
+      // Walk a document or shadow root, descending into open shadow roots and same-origin frames
+      const visitRoot = (root: Document | ShadowRoot, framePath: string[], shadowHosts: string[]) => {
+        if (detectCollections) {
+          findCollections(root, framePath, shadowHosts);
+        }
+        root.querySelectorAll(selector).forEach(element => {
+          results.push(serialize(element, framePath, shadowHosts));
+        });
+
+        if (pierceShadowDom) {
+          root.querySelectorAll('*').forEach(host => {
+            if (host.shadowRoot) {
+              visitRoot(host.shadowRoot, framePath, [...shadowHosts, getHostSelector(host, root)]);
+            }
+          });
+        }
+
+        if (includeFrames) {
+          root.querySelectorAll('iframe, frame').forEach(frame => {
+            let frameDocument: Document | null = null;
+            try {
+              // Cross-origin frames throw or return null here and are skipped
+              frameDocument = (frame as HTMLIFrameElement).contentDocument;
+            } catch (e) {
+              frameDocument = null;
+            }
+            if (frameDocument) {
+              visitRoot(frameDocument, [...framePath, getFrameSelector(frame)], []);
+            }
+          });
+        }
+      };
+
+      visitRoot(document, [], []);
+      return { elements: results, collections };
+    }, {
+      selector,
+      pierceShadowDom: this.options.pierceShadowDom !== false,
+      includeFrames: this.options.includeFrames !== false,
+      captureAccessibility,
+      detectCollections: this.options.detectCollections !== false,
+      minCollectionItems: this.options.minCollectionItems || 3,
+      neighborsHelper: NEIGHBORS_HELPER
+    });
+    
+    this.collections = this.nameCollections(collections);
+    if (this.collections.length > 0) {
+      console.log(`Found ${this.collections.length} collections: ${this.collections.map(c => `${c.semanticKey} (${c.itemCount} items)`).join(', ')}`);
+    }
+    
+    if (this.options.verifySelectors) {
+      await this.verifySelectorCandidates(elements);
+    }
     
     // Add URL and feature name to each element
     return elements.map(element => ({
@@ -147,17 +853,50 @@ export class DOMMonitor {
     }));
   }
 
+  /**
+   * Checks every selector candidate against the live page and records how many elements it matches.
+   * Candidates that resolve to exactly one element become the element's alternative selectors.
+   */
+  private async verifySelectorCandidates(elements: DOMElement[]): Promise<void> {
+    console.log(`Verifying selector candidates for ${elements.length} elements`);
+    
+    for (const element of elements) {
+      if (!element.selectorCandidates) continue;
+      
+      let scope: Page | FrameLocator = this.page!;
+      for (const frameSelector of element.framePath || []) {
+        scope = scope.frameLocator(frameSelector);
+      }
+      
+      for (const candidate of element.selectorCandidates) {
+        try {
+          candidate.matchCount = await scope.locator(candidate.selector).count();
+          candidate.unique = candidate.matchCount === 1;
+        } catch (error) {
+          // Invalid selectors (e.g. unusual attribute values) simply don't qualify
+          candidate.matchCount = 0;
+          candidate.unique = false;
+        }
+      }
+      
+      element.alternativeSelectors = element.selectorCandidates
+        .filter(candidate => candidate.unique)
+        .map(candidate => candidate.selector);
+    }
+  }
+
   async generateSemanticKeys(elements: DOMElement[]): Promise<DOMElement[]> {
     console.log(`Generating semantic keys for ${elements.length} elements`);
     
     if (this.options.useMCP && this.mcpService) {
       try {
         // Use MCP to enhance elements with semantic keys
-        const enhancedElements = await this.mcpService.generateSemanticKeysForPage(this.currentUrl || 'unknown');
+        const previous = this.currentUrl ? this.readPreviousElements(this.currentUrl) : [];
+        const enhancedElements = await this.mcpService.generateSemanticKeysForPage(this.currentUrl || 'unknown', previous);
         console.log(`Generated ${enhancedElements.filter(e => e.semanticKey).length} semantic keys using MCP`);
         
         // Map the semantic keys back to our original elements and add stable IDs
-        const processedElements = [];
+        const processedElements: DOMElement[] = [];
         
         for (const element of elements) {
           const matchingEnhanced = enhancedElements.find(e => 
@@ -180,7 +919,6 @@ export class DOMMonitor {
           const enhancedElement = {
             ...element,
             semanticKey: finalKey,
-            stableId: this.generateStableId(element),
           };
           
           processedElements.push(enhancedElement);
@@ -189,7 +927,11 @@ export class DOMMonitor {
         // Now that we have all elements with semantic keys, generate alternative names
         // Process in two passes to allow awareness of other elements
         
-        // First, collect all elements with their basic info
+        // First, collect all elements with their basic info and stable IDs
+        assignStableIds(processedElements).forEach((element, i) => {
+          processedElements[i].stableId = element.stableId;
+        });
+        this.disambiguateKeys(processedElements);
         for (const element of processedElements) {
           if (!element.alternativeNames) {
             element.alternativeNames = [];
@@ -241,9 +983,9 @@ export class DOMMonitor {
       key = element.attributes['data-testid'];
     } else if (element.id) {
       key = element.id;
-    } else if (element.innerText) {
-      // Create a key from the first few words of inner text
-      key = element.innerText
+    } else if (element.accessibility?.name || element.innerText) {
+      // Create a key from the first few words of the accessible name or inner text
+      key = (element.accessibility?.name || element.innerText!)
         .trim()
         .toLowerCase()
         .replace(/[^\w\s-]/g, '')
@@ -280,13 +1022,24 @@ export class DOMMonitor {
       return 'link';
     } else if (tagName === 'select') {
       return 'dropdown';
-    } else {
-      return tagName;
     }
+    
+    // Generic containers acting as ARIA widgets are typed by their role
+    const role = element.accessibility?.role || element.attributes?.role;
+    if (role === 'button' || role === 'checkbox' || role === 'radio' || role === 'tab' || 
+        role === 'switch' || role === 'menuitem' || role === 'textbox') {
+      return role;
+    } else if (role === 'link') {
+      return 'link';
+    } else if (role === 'combobox' || role === 'listbox') {
+      return 'dropdown';
+    }
+    
+    return tagName;
   }
 
   private async generateRuleBasedSemanticKeys(elements: DOMElement[]): Promise<DOMElement[]> {
-    const processedElements = [];
+    const processedElements: DOMElement[] = [];
     
     // First pass: generate basic keys and stable IDs
     for (const element of elements) {
@@ -300,9 +1053,6 @@ export class DOMMonitor {
       
       element.semanticKey = semanticKey;
       
-      // Generate a stable ID based on position, attributes, and tag
-      element.stableId = this.generateStableId(element);
-      
       if (!element.alternativeNames) {
         element.alternativeNames = [];
       }
@@ -310,6 +1060,12 @@ export class DOMMonitor {
       processedElements.push(element);
     }
     
+    // Stable IDs come from the fingerprint of each element, unique within the page
+    assignStableIds(processedElements).forEach((element, i) => {
+      processedElements[i].stableId = element.stableId;
+    });
+    this.disambiguateKeys(processedElements);
+    
     // Second pass: generate alternative names with awareness of other elements
     for (const element of processedElements) {
       // Generate alternative names using MCP if available, otherwise use basic method
@@ -338,23 +1094,117 @@ export class DOMMonitor {
     return processedElements;
   }
 
-  private generateStableId(element: DOMElement): string {
-    // Create a consistent hash from element properties that are less likely to change
-    const stableProps = {
-      tagName: element.tagName,
-      role: element.attributes?.role,
-      position: element.xpath ? element.xpath.split('/').length : 0, // Depth in DOM
-      // Include a subset of the most stable attributes
-      label: element.attributes?.['aria-label'] || element.attributes?.placeholder || element.attributes?.name,
-      text: element.innerText ? element.innerText.substring(0, 50) : ''
-    };
+  /**
+   * Collections found by the last extraction
+   */
+  getCollections(): ElementCollection[] {
+    return this.collections;
+  }
+
+  /**
+   * Gives the collections found on the page and their template elements semantic keys
+   * A collection is named after its container, e.g. a "todo-list" of li items becomes "todo_item"
+   */
+  private nameCollections(extracted: ExtractedCollection[]): ElementCollection[] {
+    const GENERIC_WORDS = ['list', 'lists', 'item', 'items', 'container', 'wrapper', 'grid', 'table', 'rows', 'cards', 'group'];
+    const words = (text?: string) => (text || '')
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word && !GENERIC_WORDS.includes(word));
+    const featurePrefix = this.options.featureName ? `${this.options.featureName.toLowerCase()}_` : '';
+    const usedKeys = new Set<string>();
     
-    // Create a hash of these properties
-    const hashInput = JSON.stringify(stableProps);
-    const hash = crypto.createHash('md5').update(hashInput).digest('hex').substring(0, 8);
+    return extracted.map(collection => {
+      const base = words(collection.name).slice(0, 3).join('_') || words(collection.heading).slice(0, 3).join('_');
+      const itemNoun = collection.itemTag === 'tr' ? 'row' : 
+        /card/i.test(collection.itemSelector) ? 'card' : 'item';
+      
+      let semanticKey = `${featurePrefix}${base ? `${base}_${itemNoun}` : itemNoun}`;
+      for (let n = 2; usedKeys.has(semanticKey); n++) {
+        semanticKey = `${featurePrefix}${base ? `${base}_${itemNoun}` : itemNoun}_${n}`;
+      }
+      usedKeys.add(semanticKey);
+      
+      const readableBase = base.replace(/_/g, ' ');
+      const alternativeNames = [
+        readableBase ? `${readableBase} ${itemNoun}` : '',
+        readableBase,
+        readableBase ? `${readableBase} list` : '',
+        collection.heading?.toLowerCase() || '',
+        itemNoun
+      ];
+      
+      const { name, heading, template, ...rest } = collection;
+      return {
+        ...rest,
+        semanticKey,
+        alternativeNames: [...new Set(alternativeNames.filter(alt => alt.length >= 3))],
+        featureName: this.options.featureName,
+        url: this.currentUrl || undefined,
+        template: this.nameTemplateElements(template)
+      };
+    });
+  }
+
+  /**
+   * Semantic keys for the elements of an item template, named after what they share across items
+   * (test id, name, label, text or class), never after item data
+   */
+  private nameTemplateElements(template: ExtractedCollection['template']): CollectionTemplateElement[] {
+    const usedKeys = new Set<string>();
     
-    // Create an ID like "e123abc" that combines the element type with the hash
-    return `e${hash}`;
+    return template.map((entry, index) => {
+      const element: DOMElement = {
+        tagName: entry.tagName,
+        attributes: entry.attributes,
+        innerText: entry.innerText,
+        xpath: '',
+        accessibility: entry.role ? { role: entry.role } : undefined
+      };
+      const elementType = this.getElementType(element);
+      const hint = (entry.attributes['data-testid'] || entry.attributes.name || entry.attributes['aria-label'] || 
+        entry.innerText || (entry.attributes.class || '').split(/\s+/)[0] || '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim()
+        .split(' ')
+        .filter(word => word && !elementType.split('_').includes(word))
+        .slice(0, 3)
+        .join('_');
+      
+      let semanticKey = hint ? `${elementType}_${hint}` : elementType;
+      if (usedKeys.has(semanticKey)) {
+        semanticKey = `${semanticKey}_${index + 1}`;
+      }
+      usedKeys.add(semanticKey);
+      
+      const readableType = elementType.replace(/_/g, ' ');
+      const alternativeNames = [
+        ...this.generateBasicAlternativeNames({ ...element, semanticKey }),
+        hint ? `${hint.replace(/_/g, ' ')} ${readableType}` : '',
+        readableType
+      ];
+      
+      return {
+        ...entry,
+        semanticKey,
+        alternativeNames: [...new Set(alternativeNames.filter(alt => alt.length >= 3))]
+      };
+    });
+  }
+
+  /**
+   * Qualifies semantic keys shared by several elements of the page with their container context
+   */
+  private disambiguateKeys(elements: DOMElement[]): void {
+    const { elements: resolved, renamed, unresolved } = resolveKeyCollisions(elements);
+    resolved.forEach((element, i) => {
+      elements[i].semanticKey = element.semanticKey;
+    });
+    if (renamed > 0 || unresolved.length > 0) {
+      console.log(`Semantic key collisions: ${renamed} keys qualified, ${unresolved.length} unresolved`);
+    }
   }
 
   private generateAlternativeNames(element: DOMElement): string[] {
@@ -685,55 +1535,127 @@ export class DOMMonitor {
       .slice(0, 15); // Limit to 15 alternatives to avoid overly large mapping files
   }
 
-  async saveReport(url: string, elements: DOMElement[]) {
+  /**
+   * Saves the elements of a page to its mapping file and HTML report
+   * @param state UI state the elements were extracted in; its elements replace only those of
+   * the same state, and elements already part of the page as loaded are left out
+   */
+  async saveReport(url: string, elements: DOMElement[], state?: string) {
     if (!fs.existsSync(this.options.outputPath!)) {
       fs.mkdirSync(this.options.outputPath!, { recursive: true });
     }
 
-    const urlObj = new URL(url);
-    const hostname = urlObj.hostname.replace(/\./g, '_');
-    const pathname = urlObj.pathname.replace(/\//g, '_');
-    
-    // Add feature name to filename if available
-    const featurePrefix = this.options.featureName ? 
-      `${this.options.featureName.toLowerCase()}_` : '';
-    
-    const filename = `${featurePrefix}${hostname}${pathname}.json`;
-    const filePath = path.join(this.options.outputPath!, filename);
+    // URLs matching a route pattern share one mapping file, named after the pattern
+    const routing = loadSemanticConfig();
+    const route = findRoute(url, routing.routes);
+    const filePath = this.getMappingFilePath(url);
 
     // Get current timestamp for the report
     const timestamp = new Date().toISOString();
 
+    // Ensure each element has the URL
+    let elementsWithUrl: DOMElement[] = elements.map(el => ({
+      ...el,
+      url: url,
+      ...(state ? { state } : {}),
+      lastSeen: timestamp,
+      lastUpdated: timestamp
+    }));
+
+    // Elements of the other states are kept as they are, this run only replaces its own
+    const existing = this.readExistingMappingFile(filePath);
+    const previous = (existing?.elements || []).filter(element => element.state === state);
+    const otherStates = (existing?.elements || []).filter(element => element.state !== state);
+    if (state) {
+      const count = elementsWithUrl.length;
+      elementsWithUrl = excludeBaseElements(elementsWithUrl, otherStates.filter(element => !element.state));
+      console.log(`State '${state}': ${elementsWithUrl.length} elements, ${count - elementsWithUrl.length} already on the page as loaded`);
+    }
+
+    // Carry stable IDs over from the previous run, so references survive copy edits and layout changes
+    if (existing) {
+      const { elements: reassociated, summary } = reassociateStableIds(previous, elementsWithUrl);
+      console.log(`Stable IDs: ${summary.matched} carried over (${summary.recovered} recovered by fingerprint), ${summary.added} new`);
+      elementsWithUrl = reassociated;
+      
+      // Stable IDs are unique across the states of the page
+      const taken = new Set(otherStates.map(element => element.stableId));
+      elementsWithUrl = elementsWithUrl.map(element => {
+        let stableId = element.stableId;
+        for (let n = 2; stableId && taken.has(stableId); n++) {
+          stableId = `${element.stableId}_${n}`;
+        }
+        return { ...element, stableId };
+      });
+    }
+
+    // Keep curated keys and vanished elements from the previous run
+    if (existing && this.options.merge) {
+      const { elements: merged, summary } = mergeMappingElements(previous, elementsWithUrl, timestamp, existing.timestamp);
+      console.log(`Merged into ${filePath}: ${summary.matched} matched, ${summary.added} added, ${summary.stale} newly stale, ${summary.preserved} locked keys kept`);
+      elementsWithUrl = merged;
+    }
+
+    // Keys must also stay unique across the pages mapped in the same directory, and the
+    // keys of a state unique against the rest of its page
+    const collisions = resolveKeyCollisions(elementsWithUrl, this.readOtherMappingFiles(filePath), state ? otherStates : []);
+    elementsWithUrl = collisions.elements;
+    if (collisions.unresolved.length > 0) {
+      console.warn(`${collisions.unresolved.length} semantic key collisions could not be resolved, see the HTML report`);
+    }
+    
+    // The page as loaded comes first, followed by its states
+    const allElements = state ? [...otherStates, ...elementsWithUrl] : [...elementsWithUrl, ...otherStates];
+
     // Metadata for the JSON report
     const metadata = {
       url,
+      route,
       timestamp,
       featureName: this.options.featureName || 'Unknown',
-      elementCount: elements.length
+      elementCount: allElements.length
     };
 
-    // Ensure each element has the URL
-    const elementsWithUrl = elements.map(el => ({
-      ...el,
-      url: url
-    }));
+    // Collections of this extraction; a merge keeps the stored ones when none were extracted
+    let collections = this.collections.length > 0 || !this.options.merge ? 
+      this.collections.map(collection => ({ ...collection, url })) : 
+      existing?.collections || [];
+    // A state only adds the collections it revealed, tagged with the state
+    if (state) {
+      const stored = existing?.collections || [];
+      collections = [...stored, ...collections
+        .filter(collection => !stored.some(other => 
+          other.containerSelector === collection.containerSelector && other.itemSelector === collection.itemSelector))
+        .map(collection => ({ ...collection, state }))];
+    }
 
     // Write JSON with metadata
-    const jsonData = {
-      metadata,
-      elements: elementsWithUrl
-    };
-    fs.writeFileSync(filePath, JSON.stringify(jsonData, null, 2));
+    writeMappingFile(filePath, allElements, metadata, collections);
+
+    // Keep the vector index next to the mapping in step, embedding only changed elements
+    if (this.options.vectorIndex) {
+      const config = loadSemanticConfig();
+      const scorer = new DescriptionScorer(config.scoring);
+      const provider = createEmbeddingProvider(config.vectorIndex || {}, text => scorer.tokenize(text));
+      const { indexPath, embedded, reused } = await updateVectorIndex(filePath, allElements, provider);
+      console.log(`Vector index ${indexPath} updated: ${embedded} embedded, ${reused} unchanged`);
+    }
 
     // Generate HTML report
-    const htmlPath = path.join(this.options.outputPath!, `${featurePrefix}${hostname}${pathname}.html`);
-    const htmlContent = this.generateHTMLReport(url, elementsWithUrl, timestamp);
+    const htmlPath = filePath.replace(/\.json$/, '.html');
+    const htmlContent = this.generateHTMLReport(url, allElements, timestamp, collisions.unresolved, collections);
     fs.writeFileSync(htmlPath, htmlContent);
 
     return { jsonPath: filePath, htmlPath };
   }
 
-  private generateHTMLReport(url: string, elements: DOMElement[], timestamp: string): string {
+  private generateHTMLReport(
+    url: string, 
+    elements: DOMElement[], 
+    timestamp: string, 
+    collisions: KeyCollision[] = [], 
+    collections: ElementCollection[] = []
+  ): string {
     const featureInfo = this.options.featureName ? 
       `<p>Feature: ${this.options.featureName}</p>` : '';
     
@@ -743,28 +1665,7 @@ export class DOMMonitor {
     <head>
       <title>DOM Monitor Report - ${url}</title>
       <style>
-        body { font-family: Arial, sans-serif; margin: 20px; }
-        h1 { color: #333; }
-        .element { border: 1px solid #ddd; padding: 10px; margin-bottom: 10px; border-radius: 5px; }
-        .tag { color: #0066cc; font-weight: bold; }
-        .id { color: #cc6600; }
-        .semantic { color: #009900; font-weight: bold; }
-        .feature { color: #990099; font-weight: bold; }
-        .metadata { background-color: #f0f8ff; padding: 10px; border-radius: 5px; margin-bottom: 20px; }
-        table { border-collapse: collapse; width: 100%; }
-        th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
-        th { background-color: #f2f2f2; }
-        .search-box { margin: 10px 0; padding: 10px; }
-        .search-box input { padding: 8px; width: 300px; }
-        .filters { margin: 10px 0; }
-        .filters button { margin-right: 5px; padding: 5px 10px; cursor: pointer; }
-        .hidden { display: none; }
-        .alternatives { background-color: #f9f9f9; padding: 10px; border-radius: 5px; margin: 10px 0; }
-        .alternatives ul { margin: 0; padding-left: 20px; columns: 3; column-gap: 20px; }
-        .alternatives li { margin-bottom: 3px; }
-        @media (max-width: 768px) {
-          .alternatives ul { columns: 1; }
-        }
+        ${REPORT_STYLES}
       </style>
       <script>
         function filterElements() {
@@ -805,9 +1706,26 @@ export class DOMMonitor {
         <p>URL: ${url}</p>
         ${featureInfo}
         <p>Elements found: ${elements.length}</p>
+        ${collections.length > 0 ? `<p>Collections found: ${collections.length}</p>` : ''}
         <p>Generated: ${new Date(timestamp).toLocaleString()}</p>
       </div>
       
+      ${collisions.length > 0 ? `
+      <h2>Unresolved Key Collisions</h2>
+      <table>
+        <tr><th>Semantic key</th><th>Reason</th><th>Elements</th></tr>
+        ${collisions.map(collision => `
+          <tr>
+            <td><span class="semantic">${collision.semanticKey}</span></td>
+            <td>${collision.reason}</td>
+            <td>${collision.elements.map(element => 
+              `${element.stableId ? `${element.stableId}: ` : ''}${element.xpath}${element.mappingFile ? ` (${element.mappingFile})` : ''}`
+            ).join('<br>')}</td>
+          </tr>
+        `).join('')}
+      </table>
+      ` : ''}
+      
       <div class="search-box">
         <input type="text" id="search" placeholder="Search elements..." onkeyup="filterElements()">
       </div>
@@ -819,14 +1737,45 @@ export class DOMMonitor {
         ).join('')}
       </div>
       
+      ${collections.length > 0 ? `
+      <h2>Collections</h2>
+      ${collections.map(collection => `
+        <div class="element">
+          <p><span class="semantic">Semantic Key: ${collection.semanticKey}</span> (${collection.itemCount} items)</p>
+          <p>Container: <code>${collection.containerSelector}</code></p>
+          <p>Items: <code>${collection.itemSelector}</code></p>
+          ${collection.framePath ? `<p>Frame: ${collection.framePath.join(' &rarr; ')}</p>` : ''}
+          ${collection.alternativeNames && collection.alternativeNames.length > 0 ? 
+            `<p>Alternative names: ${collection.alternativeNames.join(', ')}</p>` : ''}
+          <h3>Item Template</h3>
+          <table>
+            <tr><th>Semantic key</th><th>Tag</th><th>Selector in item</th></tr>
+            ${collection.template.map(element => `
+              <tr>
+                <td><span class="semantic">${element.semanticKey}</span>${element.optional ? ' (optional)' : ''}</td>
+                <td><span class="tag">${element.tagName}</span></td>
+                <td><code>${element.selector}</code></td>
+              </tr>
+            `).join('')}
+          </table>
+        </div>
+      `).join('')}
+      ` : ''}
+      
       <h2>Elements</h2>
       ${elements.map(element => `
         <div class="element" data-tag="${element.tagName}">
           <p><span class="tag">${element.tagName}</span> ${element.id ? `<span class="id">id="${element.id}"</span>` : ''}</p>
           ${element.semanticKey ? `<p><span class="semantic">Semantic Key: ${element.semanticKey}</span></p>` : ''}
-          ${element.stableId ? `<p><span class="feature">Stable ID: ${element.stableId}</span></p>` : ''}
+          ${element.stableId ? `<p><span class="feature">Stable ID: ${element.stableId}${element.stableIdConfidence !== undefined ? ` (confidence ${element.stableIdConfidence})` : ''}</span></p>` : ''}
+          ${element.locked ? '<p><span class="semantic">Locked</span></p>' : ''}
+          ${element.state ? `<p><span class="feature">State: ${element.state}</span></p>` : ''}
+          ${element.stale ? `<p><span class="id">Stale, last seen ${element.lastSeen ? new Date(element.lastSeen).toLocaleString() : 'unknown'}</span></p>` : ''}
           ${element.featureName ? `<p><span class="feature">Feature: ${element.featureName}</span></p>` : ''}
           <p>XPath: ${element.xpath}</p>
+          ${element.framePath ? `<p>Frame: ${element.framePath.join(' &rarr; ')}</p>` : ''}
+          ${element.accessibility?.role ? `<p>Role: ${element.accessibility.role}${element.accessibility.name ? ` &ldquo;${element.accessibility.name}&rdquo;` : ''}</p>` : ''}
+          ${element.shadowHosts ? `<p>Shadow hosts: ${element.shadowHosts.join(' &rarr; ')}</p>` : ''}
           ${element.innerText ? `<p>Text: "${element.innerText.substring(0, 100)}${element.innerText.length > 100 ? '...' : ''}"</p>` : ''}
           
           ${element.alternativeNames && element.alternativeNames.length > 0 ? `
@@ -848,11 +1797,23 @@ export class DOMMonitor {
           
           <h3>Suggested Playwright Selector</h3>
           <code>
-            ${element.id ? `page.locator('#${element.id}')` : 
+            ${element.alternativeSelectors && element.alternativeSelectors.length > 0 ? 
+              `page.locator('${element.alternativeSelectors[0].replace(/'/g, "\\'")}')` : 
+              element.id ? `page.locator('#${element.id}')` : 
               element.attributes['data-testid'] ? `page.locator('[data-testid="${element.attributes['data-testid']}"]')` : 
               element.innerText ? `page.locator('${element.tagName}:has-text("${element.innerText.substring(0, 50).replace(/"/g, '\\"')}")` : 
               `page.locator('${element.xpath}')`}
           </code>
+          
+          ${element.selectorCandidates && element.selectorCandidates.length > 0 ? `
+          <h3>Selector Candidates</h3>
+          <table>
+            <tr><th>Strategy</th><th>Selector</th><th>Matches</th></tr>
+            ${element.selectorCandidates.map(candidate => `
+              <tr><td>${candidate.strategy}</td><td><code>${candidate.selector}</code></td><td>${candidate.matchCount ?? '-'}${candidate.unique ? ' &#10003;' : ''}</td></tr>
+            `).join('')}
+          </table>
+          ` : ''}
         </div>
       `).join('')}
     </body>
@@ -861,11 +1822,15 @@ export class DOMMonitor {
   }
 
   async close() {
-    if (this.browser) {
+    // A browser passed in options is shared, only the pages opened here are closed
+    if (this.options.browser) {
+      await this.browserContext?.close();
+    } else if (this.browser) {
       await this.browser.close();
-      this.browser = null;
-      this.page = null;
     }
+    this.browser = null;
+    this.browserContext = null;
+    this.page = null;
   }
 
   /**
@@ -946,6 +1911,14 @@ export class DOMMonitor {
       alternativeNames.push(descriptionParts.join(' '));
     }
     
+    // Add the accessible name, which is the only readable name icon buttons have
+    if (element.accessibility?.name) {
+      const name = element.accessibility.name.trim().toLowerCase();
+      if (name.length < 30) {
+        alternativeNames.push(name);
+      }
+    }
+    
     // Add text content as alternative if available and not too long
     if (element.innerText && element.innerText.trim()) {
       const text = element.innerText.trim().toLowerCase();
@@ -959,34 +1932,59 @@ export class DOMMonitor {
       .filter(name => name.length >= 3);
   }
 
+  /**
+   * Reads the elements of every other mapping file in the output directory
+   * @param filePath Mapping file of the current page, left out
+   */
+  private readOtherMappingFiles(filePath: string): Record<string, DOMElement[]> {
+    const mappings: Record<string, DOMElement[]> = {};
+    for (const file of listMappingFiles(this.options.outputPath!)) {
+      if (path.resolve(file) === path.resolve(filePath)) continue;
+      try {
+        mappings[file] = readMappingFile<DOMElement>(file).elements;
+      } catch (error) {
+        console.error(`Skipping ${file} when checking key collisions: ${error}`);
+      }
+    }
+    return mappings;
+  }
+
+  /**
+   * Mapping file of a URL; URLs matching a route pattern share one, named after the pattern
+   */
+  private getMappingFilePath(url: string): string {
+    return path.join(this.options.outputPath!, `${getMappingBaseName(url, this.options.featureName, loadSemanticConfig())}.json`);
+  }
+
+  /**
+   * Elements of the page as loaded in the existing mapping of a URL
+   */
+  private readPreviousElements(url: string): DOMElement[] {
+    return (this.readExistingMappingFile(this.getMappingFilePath(url))?.elements || []).filter(element => !element.state);
+  }
+
   /**
    * Reads DOM elements from an existing mapping file if it exists
    * @param filePath Path to the existing mapping file
    * @returns The DOM elements from the file or null if file doesn't exist
    */
-  private readExistingMappingFile(filePath: string): { elements: DOMElement[], timestamp?: string } | null {
+  private readExistingMappingFile(filePath: string): { 
+    elements: DOMElement[], 
+    collections?: ElementCollection[], 
+    timestamp?: string 
+  } | null {
     try {
       if (!fs.existsSync(filePath)) {
         return null;
       }
       
-      const fileContent = fs.readFileSync(filePath, 'utf-8');
-      const jsonData = JSON.parse(fileContent);
-      
-      // Handle both old (array) and new (object with metadata and elements) formats
-      if (Array.isArray(jsonData)) {
-        // Old format - just an array of elements
-        return { elements: jsonData };
-      } else if (jsonData.elements && Array.isArray(jsonData.elements)) {
-        // New format - object with metadata and elements
-        return { 
-          elements: jsonData.elements,
-          timestamp: jsonData.metadata?.timestamp
-        };
-      }
-      
-      // Unknown format
-      return null;
+      // Older array and unversioned formats are upgraded on read
+      const mapping = readMappingFile<DOMElement>(filePath);
+      return { 
+        elements: mapping.elements,
+        collections: mapping.collections,
+        timestamp: mapping.metadata.timestamp
+      };
     } catch (error) {
       console.error(`Error reading existing mapping file: ${error}`);
       return null;
@@ -1,8 +1,8 @@
 import minimist from 'minimist';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as glob from 'glob';
 import { CursorAIService } from './services/cursor-ai-service';
+import { listMappingFiles, readMappingFile, writeMappingFile } from './utils/mapping-file';
 
 interface EnhanceOptions {
   file?: string;
@@ -18,13 +18,8 @@ async function enhanceMappingFile(filePath: string, outputPath?: string): Promis
   
   try {
     // Read the existing mapping
-    const mappingContent = fs.readFileSync(filePath, 'utf-8');
-    const elements = JSON.parse(mappingContent);
-    
-    if (!Array.isArray(elements)) {
-      console.error(`Invalid mapping file: ${filePath} - not an array`);
-      return;
-    }
+    const mapping = readMappingFile<any>(filePath);
+    const elements = mapping.elements;
     
     // Create Cursor AI Service
     const cursorService = new CursorAIService({
@@ -54,7 +49,7 @@ async function enhanceMappingFile(filePath: string, outputPath?: string): Promis
     
     // Save the enhanced mapping
     const targetPath = outputPath || filePath;
-    fs.writeFileSync(targetPath, JSON.stringify(enhancedElements, null, 2));
+    writeMappingFile(targetPath, enhancedElements, mapping.metadata, mapping.collections);
     console.log(`Enhanced mapping saved to ${targetPath}`);
     
     // Generate a comparison report
@@ -158,7 +153,7 @@ function generateComparisonReport(originalElements: any[], enhancedElements: any
 async function enhanceDirectory(dirPath: string, outputDir?: string): Promise<void> {
   console.log(`Enhancing all mapping files in ${dirPath}...`);
   
-  const files = glob.sync(path.join(dirPath, '*.json'));
+  const files = listMappingFiles(dirPath);
   
   if (files.length === 0) {
     console.log(`No JSON files found in ${dirPath}`);
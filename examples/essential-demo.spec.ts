@@ -1,5 +1,5 @@
-import { test, expect } from '@playwright/test';
-import { getByDescription, getElementByDescription } from '../utils/semantic-helper';
+import { test, expect } from '../utils/semantic-fixture';
+import { getElementByDescription } from '../utils/semantic-helper';
 
 /**
  * This file demonstrates the core functionality of the Playwright DOM Extractor
@@ -12,16 +12,16 @@ test.describe('Essential Demo', () => {
     await page.goto('file://' + __dirname + '/test-html/semantic-demo.html');
   });
 
-  test('Login scenario using natural language descriptions', async ({ page }) => {
+  test('Login scenario using natural language descriptions', async ({ page, semantic }) => {
     test.info().annotations.push({
       type: 'description',
       description: 'Demonstrates using natural language descriptions for locators'
     });
 
     // Use natural language descriptions to find elements
-    const usernameField = await getByDescription(page, 'username input');
-    const passwordField = await getByDescription(page, 'password input');
-    const loginButton = await getByDescription(page, 'login button');
+    const usernameField = await semantic.getByDescription('username input');
+    const passwordField = await semantic.getByDescription('password input');
+    const loginButton = await semantic.getByDescription('login button');
 
     // Interact with elements
     await usernameField.fill('testuser');
@@ -29,31 +29,31 @@ test.describe('Essential Demo', () => {
     await loginButton.click();
 
     // Verify success message is displayed
-    const successMessage = await getByDescription(page, 'success message');
+    const successMessage = await semantic.getByDescription('success message');
     await expect(successMessage).toBeVisible();
     await expect(successMessage).toContainText('Login successful');
   });
 
-  test('Profile form using flexible descriptions', async ({ page }) => {
+  test('Profile form using flexible descriptions', async ({ page, semantic }) => {
     // Go to profile page first
     await page.click('text=Go to Profile');
 
     // Use flexible descriptions - different wording but similar meaning
-    const firstNameField = await getByDescription(page, 'first name field');
-    const lastNameField = await getByDescription(page, 'last name field');
+    const firstNameField = await semantic.getByDescription('first name field');
+    const lastNameField = await semantic.getByDescription('last name field');
 
     // Fill out fields
     await firstNameField.fill('John');
     await lastNameField.fill('Doe');
 
     // Use very natural language
-    const bioField = await getByDescription(page, 'biography text area');
-    const saveButton = await getByDescription(page, 'save button');
+    const bioField = await semantic.getByDescription('biography text area');
+    const saveButton = await semantic.getByDescription('save button');
 
     await bioField.fill('This is a test biography with some information.');
     
     // Toggle some preference settings
-    const notificationsCheckbox = await getByDescription(page, 'notifications');
+    const notificationsCheckbox = await semantic.getByDescription('notifications');
     await notificationsCheckbox.check();
 
     // Get multiple matching elements
@@ -67,15 +67,15 @@ test.describe('Essential Demo', () => {
     await saveButton.click();
     
     // Verify success message
-    const successMessage = await getByDescription(page, 'success message');
+    const successMessage = await semantic.getByDescription('success message');
     await expect(successMessage).toBeVisible();
   });
 
-  test('Demonstrating flexibility of matching', async ({ page }) => {
+  test('Demonstrating flexibility of matching', async ({ semantic }) => {
     // These should all match the login button
-    const button1 = await getByDescription(page, 'login button');
-    const button2 = await getByDescription(page, 'submit login');
-    const button3 = await getByDescription(page, 'sign in');
+    const button1 = await semantic.getByDescription('login button');
+    const button2 = await semantic.getByDescription('submit login');
+    const button3 = await semantic.getByDescription('sign in');
     
     // Verify they're all the same element
     await expect(button1).toHaveText('Login');
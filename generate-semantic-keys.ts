@@ -2,6 +2,10 @@ import { program } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
 import { CursorAIService } from './services/cursor-ai-service';
+import { writeMappingFile } from './utils/mapping-file';
+import { loadSemanticConfig } from './utils/semantic-config';
+import { findRoute, getMappingBaseName, isSamePage } from './utils/page-routes';
+import { getElementLocation } from './utils/page-states';
 import { chromium, Browser, Page } from '@playwright/test';
 
 /**
@@ -18,7 +22,10 @@ program
   .option('-o, --output <path>', 'Output directory for mappings', './mappings')
   .option('-c, --context <name>', 'Feature/context name to use as prefix')
   .option('-s, --selectors <selectors>', 'CSS selectors to target specific elements', 'a, button, input, select, h1, h2, h3, label, nav, .nav-item')
-  .option('-d, --dynamic', 'Analyze dynamic elements with state changes', false)
+  .option('-d, --dynamic', 'Explore the states revealed by clicking interactable elements', false)
+  .option('--max-depth <clicks>', 'Clicks in a row --dynamic explores from the page as loaded', '2')
+  .option('--max-actions <clicks>', 'Clicks --dynamic performs in total', '20')
+  .option('--exclude <labels>', 'Comma-separated labels of elements --dynamic never clicks, on top of destructive ones like Delete or Log out')
   .option('-w, --wait <milliseconds>', 'Wait time in ms after page load', '2000')
   .option('-f, --format <format>', 'Output format (json, html, both)', 'both')
   .option('-v, --verbose', 'Enable verbose logging', false)
@@ -64,7 +71,7 @@ async function main() {
     console.log(`Extracted ${elements.length} elements`);
 
     // Generate semantic keys
-    const elementsWithKeys = await enhanceElementsWithSemanticKeys(elements, aiService);
+    let elementsWithKeys = await enhanceElementsWithSemanticKeys(elements, aiService);
     console.log(`Generated semantic keys for ${elementsWithKeys.length} elements`);
 
     // Save results
@@ -73,17 +80,27 @@ async function main() {
       fs.mkdirSync(outputDir, { recursive: true });
     }
 
-    // Create filename from URL and context
-    const urlObj = new URL(options.url);
-    const hostname = urlObj.hostname.replace(/\./g, '_');
-    const pathname = urlObj.pathname.replace(/\//g, '_');
-    const contextPrefix = options.context ? `${options.context.toLowerCase()}_` : '';
-    const baseFilename = `${contextPrefix}${hostname}${pathname}`;
+    // Create filename from URL (or the route pattern it matches) and context
+    const routing = loadSemanticConfig();
+    const baseFilename = getMappingBaseName(options.url, options.context, routing);
+
+    // Explore dynamic states if requested, adding the elements they reveal to the mapping
+    if (options.dynamic) {
+      console.log('Exploring dynamic states...');
+      const revealed = await exploreDynamicStates(page, elementsWithKeys, options, path.join(outputDir, baseFilename));
+      const revealedWithKeys = await enhanceElementsWithSemanticKeys(revealed, aiService);
+      elementsWithKeys = addRevealedElements(elementsWithKeys, revealedWithKeys);
+    }
 
     // Save as JSON
     if (options.format === 'json' || options.format === 'both') {
       const jsonPath = path.join(outputDir, `${baseFilename}.json`);
-      fs.writeFileSync(jsonPath, JSON.stringify(elementsWithKeys, null, 2));
+      writeMappingFile(jsonPath, elementsWithKeys, {
+        url: options.url,
+        route: findRoute(options.url, routing.routes),
+        timestamp: new Date().toISOString(),
+        featureName: options.context
+      });
       console.log(`JSON mapping saved to ${jsonPath}`);
     }
 
@@ -100,12 +117,6 @@ async function main() {
     await page.screenshot({ path: screenshotPath, fullPage: true });
     console.log(`Screenshot saved to ${screenshotPath}`);
 
-    // Track dynamic elements if requested
-    if (options.dynamic) {
-      console.log('Analyzing dynamic elements...');
-      await analyzeDynamicElements(page, elementsWithKeys, options);
-    }
-
   } catch (error) {
     console.error('Error during analysis:', error);
   } finally {
@@ -194,54 +205,207 @@ async function enhanceElementsWithSemanticKeys(elements: any[], aiService: Curso
 }
 
 /**
- * Analyze dynamic elements by simulating interactions
+ * Click leading to a dynamic state; a state's reveal path can be used as the actions of a states file
  */
-async function analyzeDynamicElements(page: Page, elements: any[], options: any): Promise<void> {
-  const interactableElements = elements.filter(el => 
-    (el.tagName === 'button' || el.tagName === 'a' || 
-     (el.tagName === 'input' && (el.attributes.type === 'checkbox' || el.attributes.type === 'radio'))) &&
-    el.isVisible
-  );
-  
-  console.log(`Found ${interactableElements.length} interactable elements for dynamic analysis`);
-  
-  // Create a copy of the page for interaction testing
-  const context = await page.context().newPage();
-  await context.goto(options.url, { waitUntil: 'domcontentloaded' });
-  await context.waitForTimeout(parseInt(options.wait, 10));
-  
-  // Try to interact with elements to discover dynamic content
-  const dynamicResults = [];
-  
-  for (const el of interactableElements.slice(0, 5)) { // Limit to first 5 for demo
-    try {
-      console.log(`Testing interaction with ${el.semanticKey || el.xpath}`);
-      
-      // Try to find and click the element
-      if (el.id) {
-        await context.click(`#${el.id}`);
-      } else if (el.xpath) {
-        await context.click(el.xpath);
+type RevealAction = { click: { selector: string } };
+
+/**
+ * State reached during exploration, with the interactable elements it revealed left to try
+ */
+interface ExplorationNode {
+  path: RevealAction[];
+  labels: string[];
+  candidates: any[];
+}
+
+const EXPLORATION_ACTION_TIMEOUT = 5000;
+const EXPLORATION_SETTLE_TIME = 1000;
+// Labels of elements whose click may change data or end the session, never clicked when exploring
+const DESTRUCTIVE_LABEL = /\b(delete|remove|destroy|discard|erase|clear all|reset|log ?out|sign ?out|unsubscribe|deactivate|cancel (order|subscription|account)|close account|pay|purchase|buy|checkout|check out|place order|confirm|submit|send|publish)\b/i;
+
+/**
+ * Explores the dynamic states of a page breadth first: each interactable element of the page
+ * as loaded is clicked, then each interactable element a click revealed, up to --max-depth
+ * clicks in a row and --max-actions clicks in total. Every click starts from a fresh load
+ * replaying the clicks before it, and the DOM is extracted before and after it.
+ *
+ * @returns Elements that appeared or became visible, tagged with a state named after the
+ * clicks and the path of clicks revealing them
+ */
+async function exploreDynamicStates(page: Page, elements: any[], options: any, screenshotBase: string): Promise<any[]> {
+  const maxDepth = parseInt(options.maxDepth, 10);
+  const maxActions = parseInt(options.maxActions, 10);
+  const excludedLabels = (options.exclude || '').split(',').map((label: string) => label.trim().toLowerCase()).filter(Boolean);
+  const isSafeTrigger = (element: any) => isExplorable(element) && !isExcluded(element, excludedLabels);
+  const routing = loadSemanticConfig();
+  const explorationPage = await page.context().newPage();
+
+  const revealed: any[] = [];
+  const seenStates = new Set<string>();
+  const queue: ExplorationNode[] = [{ path: [], labels: [], candidates: elements.filter(isSafeTrigger) }];
+  let actions = 0;
+
+  try {
+    while (queue.length > 0 && actions < maxActions) {
+      const node = queue.shift()!;
+      for (const candidate of node.candidates) {
+        if (actions >= maxActions) {
+          console.log(`Stopped exploring after ${maxActions} clicks, raise --max-actions to explore further`);
+          break;
+        }
+
+        const action: RevealAction = { click: { selector: `xpath=${candidate.xpath}` } };
+        const labels = [...node.labels, describeTrigger(candidate)];
+        const state = labels.join(' > ');
+
+        try {
+          await explorationPage.goto(options.url, { waitUntil: 'domcontentloaded' });
+          await explorationPage.waitForTimeout(parseInt(options.wait, 10));
+          for (const step of node.path) {
+            await clickRevealAction(explorationPage, step);
+          }
+
+          // A button without a type submits the form it belongs to, which only the page knows
+          if (await submitsForm(explorationPage, action)) {
+            if (options.verbose) {
+              console.log(`Skipping ${state}, it submits a form`);
+            }
+            continue;
+          }
+          actions++;
+          if (options.verbose) {
+            console.log(`Clicking ${state}`);
+          }
+
+          const before = new Set((await extractElements(explorationPage, options.selectors))
+            .filter(element => element.isVisible)
+            .map(getElementLocation));
+          await clickRevealAction(explorationPage, action);
+
+          // Links and submits leading to another page are left to the extraction of that page
+          if (!isSamePage(explorationPage.url(), options.url, routing)) {
+            if (options.verbose) {
+              console.log(`Clicking ${state} left the page for ${explorationPage.url()}`);
+            }
+            continue;
+          }
+
+          const appeared = (await extractElements(explorationPage, options.selectors))
+            .filter(element => element.isVisible && !before.has(getElementLocation(element)));
+          // Several triggers may open the same menu or dialog, the first one is kept
+          const signature = appeared.map(getElementLocation).sort().join('\n');
+          if (appeared.length === 0 || seenStates.has(signature)) {
+            continue;
+          }
+          seenStates.add(signature);
+
+          const revealPath = [...node.path, action];
+          console.log(`State '${state}': ${appeared.length} elements revealed`);
+          revealed.push(...appeared.map(element => ({ ...element, state, revealPath })));
+
+          await explorationPage.screenshot({ path: `${screenshotBase}_state_${seenStates.size}.png` });
+
+          if (revealPath.length < maxDepth) {
+            queue.push({ path: revealPath, labels, candidates: appeared.filter(isSafeTrigger) });
+          }
+        } catch (error) {
+          console.warn(`Could not explore ${state}: ${error}`);
+        }
       }
-      
-      // Wait for any potential dynamic changes
-      await context.waitForTimeout(1000);
-      
-      // Take a screenshot of the result
-      await context.screenshot({ 
-        path: path.join(options.output, `dynamic_${el.semanticKey || 'element'}.png`) 
-      });
-      
-      // Go back to original page for next test
-      await context.goto(options.url, { waitUntil: 'domcontentloaded' });
-      await context.waitForTimeout(parseInt(options.wait, 10));
-      
-    } catch (error) {
-      console.warn(`Could not interact with element: ${error}`);
     }
+  } finally {
+    await explorationPage.close();
   }
-  
-  await context.close();
+
+  console.log(`Explored ${actions} clicks, ${seenStates.size} states revealed ${revealed.length} elements`);
+  return revealed;
+}
+
+/**
+ * Adds the elements revealed by exploration to those of the page as loaded
+ * Elements that were already extracted while hidden get the state and reveal path instead,
+ * and an element revealed by several states keeps the first, shortest path
+ */
+function addRevealedElements(elements: any[], revealed: any[]): any[] {
+  const byLocation = new Map<string, any>(elements.map(element => [getElementLocation(element), element]));
+  const added: any[] = [];
+
+  for (const element of revealed) {
+    const location = getElementLocation(element);
+    const existing = byLocation.get(location);
+    if (!existing) {
+      byLocation.set(location, element);
+      added.push(element);
+    } else if (!existing.isVisible && !existing.state) {
+      existing.state = element.state;
+      existing.revealPath = element.revealPath;
+    }
+  }
+
+  return [...elements, ...added];
+}
+
+/**
+ * Whether clicking an element may reveal content without leaving the page or submitting a form
+ * Buttons without a type submit their form, which submitsForm checks in the page before clicking.
+ */
+function isExplorable(element: any): boolean {
+  if (!element.isVisible || !element.xpath) {
+    return false;
+  }
+  const attributes = element.attributes || {};
+  switch (element.tagName) {
+    case 'button':
+      return !['submit', 'reset'].includes((attributes.type || '').toLowerCase());
+    case 'a':
+      return !attributes.href || attributes.href.startsWith('#') || attributes.href.startsWith('javascript:');
+    case 'input':
+      return attributes.type === 'checkbox' || attributes.type === 'radio';
+    case 'summary':
+      return true;
+    default:
+      return ['button', 'tab', 'menuitem'].includes(attributes.role);
+  }
+}
+
+/**
+ * Whether an element is labelled as destructive, or with one of the labels passed to --exclude
+ */
+function isExcluded(element: any, excludedLabels: string[]): boolean {
+  const attributes = element.attributes || {};
+  const labels = [attributes['aria-label'], element.innerText, attributes.title, attributes.value]
+    .filter(Boolean)
+    .map((label: string) => label.replace(/\s+/g, ' ').trim().toLowerCase());
+  return labels.some(label => DESTRUCTIVE_LABEL.test(label) || excludedLabels.some(excluded => label.includes(excluded)));
+}
+
+/**
+ * Whether clicking the element of an action would submit or reset a form: submit and reset
+ * buttons, including buttons without a type, and submit or image inputs with a form owner
+ */
+async function submitsForm(page: Page, action: RevealAction): Promise<boolean> {
+  return page.locator(action.click.selector).first().evaluate(element => {
+    if (element instanceof HTMLButtonElement) {
+      return element.type !== 'button' && !!element.form;
+    }
+    if (element instanceof HTMLInputElement) {
+      return ['submit', 'image', 'reset'].includes(element.type) && !!element.form;
+    }
+    return false;
+  }, undefined, { timeout: EXPLORATION_ACTION_TIMEOUT });
+}
+
+/**
+ * Short label of a clicked element for state names, e.g. "Account menu"
+ */
+function describeTrigger(element: any): string {
+  const label = element.attributes?.['aria-label'] || element.innerText || element.id || element.tagName;
+  return label.replace(/\s+/g, ' ').trim().substring(0, 40);
+}
+
+async function clickRevealAction(page: Page, action: RevealAction): Promise<void> {
+  await page.locator(action.click.selector).first().click({ timeout: EXPLORATION_ACTION_TIMEOUT });
+  await page.waitForTimeout(EXPLORATION_SETTLE_TIME);
 }
 
 /**
@@ -443,6 +607,7 @@ function generateHTMLReport(url: string, elements: any[], context?: string): str
           </p>
           ${element.semanticKey ? `<p><span class="semantic">Semantic Key: ${element.semanticKey}</span></p>` : ''}
           <p>XPath: ${element.xpath}</p>
+          ${element.state ? `<p><span class="feature">State: ${element.state}</span></p>` : ''}
           ${element.innerText ? `<p>Text: "${element.innerText.substring(0, 100)}${element.innerText.length > 100 ? '...' : ''}"</p>` : ''}
           
           <h3>Attributes</h3>
@@ -3,6 +3,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as glob from 'glob';
 import { AIService } from './services/ai-service';
+import { listMappingFiles, readMappingFile } from './utils/mapping-file';
 
 interface SemanticMapping {
   tagName: string;
@@ -19,15 +20,12 @@ interface SemanticMapping {
  * Load all available semantic mappings
  */
 function loadAllMappings(mappingsDir: string = './mappings'): SemanticMapping[] {
-  const files = glob.sync(path.join(mappingsDir, '*.json'));
+  const files = listMappingFiles(mappingsDir);
   const allMappings: SemanticMapping[] = [];
   
   files.forEach(file => {
     try {
-      const mappings = JSON.parse(fs.readFileSync(file, 'utf-8'));
-      if (Array.isArray(mappings)) {
-        allMappings.push(...mappings);
-      }
+      allMappings.push(...readMappingFile<SemanticMapping>(file).elements);
     } catch (error) {
       console.error(`Error loading mapping file ${file}:`, error);
     }
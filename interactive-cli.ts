@@ -6,6 +6,7 @@ import path from 'path';
 import ora from 'ora';
 import { DOMMonitor } from './dom-monitor';
 import { MCPService } from './services/mcp-ai-service';
+import { readMappingFile } from './utils/mapping-file';
 import { promisify } from 'util';
 import { exec as execCallback } from 'child_process';
 
@@ -396,8 +397,7 @@ async function viewMappings() {
     const stats = fs.statSync(filePath);
     
     try {
-      const content = JSON.parse(fs.readFileSync(filePath, 'utf8'));
-      const elementCount = Array.isArray(content) ? content.length : 0;
+      const elementCount = readMappingFile(filePath).elements.length;
       
       console.log(`\n${chalk.cyan(file)}`);
       console.log(`  - Elements: ${chalk.yellow(elementCount)}`);
@@ -417,7 +417,7 @@ async function viewMappings() {
       }
       
     } catch (error: any) {
-      console.log(`\n${chalk.cyan(file)} ${chalk.red('(Invalid JSON)')}`);
+      console.log(`\n${chalk.cyan(file)} ${chalk.red('(Invalid mapping file)')}`);
     }
   });
 
@@ -0,0 +1,98 @@
+import minimist from 'minimist';
+import * as fs from 'fs';
+import {
+  detectMappingFormat, listMappingFiles, MAPPING_SCHEMA_VERSION, upgradeMappingData, validateMapping
+} from './utils/mapping-file';
+
+type MigrationStatus = 'migrated' | 'up-to-date' | 'invalid' | 'failed';
+
+interface MigrationResult {
+  file: string;
+  status: MigrationStatus;
+  from?: string;
+  errors: string[];
+}
+
+/**
+ * Upgrades a single mapping file in place, leaving it untouched if it fails validation
+ */
+function migrateFile(file: string, dryRun: boolean): MigrationResult {
+  let data: any;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error: any) {
+    return { file, status: 'failed', errors: [`could not parse JSON: ${error.message}`] };
+  }
+
+  const format = detectMappingFormat(data);
+  if (!format) {
+    return { file, status: 'failed', errors: ['not a mapping file (expected an array or an object with elements)'] };
+  }
+
+  let upgraded;
+  try {
+    upgraded = upgradeMappingData(data, file);
+  } catch (error: any) {
+    return { file, status: 'failed', from: format, errors: [error.message] };
+  }
+
+  const errors = validateMapping(upgraded);
+  if (errors.length > 0) {
+    return { file, status: 'invalid', from: format, errors };
+  }
+
+  if (format === 'current') {
+    return { file, status: 'up-to-date', from: format, errors: [] };
+  }
+
+  if (!dryRun) {
+    fs.writeFileSync(file, JSON.stringify(upgraded, null, 2));
+  }
+  return { file, status: 'migrated', from: format, errors: [] };
+}
+
+async function main() {
+  const args = minimist(process.argv.slice(2), { boolean: ['dry-run', 'help'] });
+
+  if (args.help) {
+    console.log('Usage:');
+    console.log('  npm run migrate-mappings -- [options]');
+    console.log('');
+    console.log('Upgrades mapping files to the current schema (schemas/mapping.schema.json)');
+    console.log('');
+    console.log('Options:');
+    console.log('  --dir          Directory containing mapping files (default: ./mappings)');
+    console.log('  --file         Migrate a single mapping file instead of a directory');
+    console.log('  --dry-run      Report what would change without writing any file');
+    console.log('  --help         Show this help message');
+    process.exit(0);
+  }
+
+  const files = args.file ? [args.file] : listMappingFiles(args.dir || './mappings');
+  if (files.length === 0) {
+    console.log(`No mapping files found in ${args.dir || './mappings'}`);
+    return;
+  }
+
+  console.log(`Migrating ${files.length} mapping files to schema version ${MAPPING_SCHEMA_VERSION}${args['dry-run'] ? ' (dry run)' : ''}`);
+
+  const results = files.map(file => migrateFile(file, args['dry-run']));
+  for (const result of results) {
+    const from = result.from ? ` (${result.from})` : '';
+    console.log(`${result.status.padEnd(10)} ${result.file}${from}`);
+    result.errors.forEach(error => console.log(`           - ${error}`));
+  }
+
+  const count = (status: MigrationStatus) => results.filter(result => result.status === status).length;
+  console.log('');
+  console.log(`${count('migrated')} migrated, ${count('up-to-date')} up to date, ${count('invalid')} invalid, ${count('failed')} failed`);
+
+  if (count('invalid') + count('failed') > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error('Error:', error);
+  process.exit(1);
+});
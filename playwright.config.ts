@@ -1,6 +1,7 @@
 import { PlaywrightTestConfig } from '@playwright/test';
+import { SemanticTestOptions, SemanticWorkerOptions } from './utils/semantic-fixture';
 
-const config: PlaywrightTestConfig = {
+const config: PlaywrightTestConfig<SemanticTestOptions, SemanticWorkerOptions> = {
   testDir: './tests',
   timeout: 30000,
   expect: {
@@ -2,6 +2,7 @@ import minimist from 'minimist';
 import * as fs from 'fs';
 import * as path from 'path';
 import { DOMMonitor } from './dom-monitor';
+import { loadLoginRecipe } from './utils/auth';
 
 async function main() {
   console.log('Starting URL processor...');
@@ -20,6 +21,9 @@ async function main() {
     console.log('  --feature-name     Feature name for better organization (optional)');
     console.log('  --wait-time        Wait time in ms after page load (default: 3000)');
     console.log('  --no-screenshots   Disable screenshot generation');
+    console.log('  --storage-state    Playwright storage state file to open the page with (saved there after --login)');
+    console.log('  --login            Login recipe JSON file, run before extracting');
+    console.log('  --states           States file with the actions reaching modals, menus and wizard steps to capture');
     console.log('  --help             Show this help message');
     process.exit(0);
   }
@@ -29,6 +33,8 @@ async function main() {
   const waitTime = args['wait-time'] || 3000;
   const skipScreenshots = args['no-screenshots'] || false;
   const featureName = args['feature-name'];
+  const storageState = args['storage-state'];
+  const login = args.login ? loadLoginRecipe(args.login) : undefined;
   
   // Ensure output directory exists
   if (!fs.existsSync(outputPath)) {
@@ -46,7 +52,10 @@ async function main() {
     const domMonitor = new DOMMonitor({
       outputPath,
       waitTimeout: waitTime,
-      featureName
+      featureName,
+      storageState,
+      login,
+      states: args.states
     });
     
     console.log('Initializing browser...');
@@ -89,6 +98,10 @@ async function main() {
       console.log(`Screenshot saved as: ${screenshotFilename}`);
     }
     
+    for (const stateReport of await domMonitor.captureStates(url)) {
+      console.log(`State '${stateReport.state}' saved to ${stateReport.jsonPath}`);
+    }
+    
     console.log('Closing browser...');
     await domMonitor.close();
     console.log('Processing completed successfully!');
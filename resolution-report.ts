@@ -0,0 +1,137 @@
+import minimist from 'minimist';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULT_RESOLUTION_LOG_PATH, ResolutionEvent, getResolutionLogPath, readResolutionLog } from './utils/resolution-log';
+import {
+  DescriptionSummary, fallbackCount, formatFallbacks, formatQuality, generateMarkdownReport, HealedMappingSummary,
+  summarizeDescriptions, summarizeHealedMappings
+} from './utils/resolution-report';
+
+/**
+ * Generate an HTML report of fragile descriptions and mappings needing updates
+ */
+function generateHTMLReport(events: ResolutionEvent[], descriptions: DescriptionSummary[], healed: HealedMappingSummary[]): string {
+  const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+  const fragile = descriptions.filter(summary => fallbackCount(summary) > 0);
+
+  return `
+  <!DOCTYPE html>
+  <html>
+  <head>
+    <title>Semantic Resolution Report</title>
+    <style>
+      body { font-family: Arial, sans-serif; margin: 20px; }
+      h1 { color: #333; }
+      .metadata { background-color: #f0f8ff; padding: 10px; border-radius: 5px; margin-bottom: 20px; }
+      table { border-collapse: collapse; width: 100%; margin-bottom: 20px; }
+      th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+      th { background-color: #f2f2f2; }
+      tr:nth-child(even) { background-color: #f9f9f9; }
+      .fallback { color: #cc6600; font-weight: bold; }
+    </style>
+  </head>
+  <body>
+    <h1>Semantic Resolution Report</h1>
+    <div class="metadata">
+      <p>Resolutions: ${events.length}</p>
+      <p>Distinct descriptions: ${descriptions.length}</p>
+      <p>Fragile descriptions: ${fragile.length}</p>
+      <p>Healed mappings: ${healed.length}</p>
+      <p>Generated: ${new Date().toLocaleString()}</p>
+    </div>
+
+    <h2>Fragile Descriptions</h2>
+    ${fragile.length === 0 ? '<p>No description needed a fallback.</p>' : `
+    <table>
+      <tr><th>Description</th><th>Resolutions</th><th>Fallbacks</th><th>Semantic keys</th><th>Avg score</th><th>Avg match quality</th><th>Smallest margin</th><th>Test files</th></tr>
+      ${fragile.map(summary => `
+        <tr>
+          <td>${escapeHtml(summary.description)}</td>
+          <td>${summary.total}</td>
+          <td class="fallback">${formatFallbacks(summary)}</td>
+          <td>${escapeHtml(summary.semanticKeys.join(', '))}</td>
+          <td>${summary.averageScore}</td>
+          <td>${formatQuality(summary)}</td>
+          <td>${summary.smallestMargin ?? '-'}</td>
+          <td>${escapeHtml(summary.testFiles.join(', '))}</td>
+        </tr>
+      `).join('')}
+    </table>`}
+
+    <h2>Mappings To Update</h2>
+    ${healed.length === 0 ? '<p>No selectors were healed.</p>' : `
+    <table>
+      <tr><th>Semantic key</th><th>Stored selector</th><th>Healed selector</th><th>Times healed</th><th>Avg confidence</th><th>Last seen</th></tr>
+      ${healed.map(summary => `
+        <tr>
+          <td>${escapeHtml(summary.semanticKey)}</td>
+          <td><code>${escapeHtml(summary.selector)}</code></td>
+          <td><code>${escapeHtml(summary.healedSelector)}</code></td>
+          <td>${summary.count}</td>
+          <td>${summary.averageConfidence.toFixed(2)}</td>
+          <td>${new Date(summary.lastSeen).toLocaleString()}</td>
+        </tr>
+      `).join('')}
+    </table>`}
+  </body>
+  </html>
+  `;
+}
+
+async function main() {
+  const args = minimist(process.argv.slice(2));
+
+  if (args.help) {
+    console.log('Usage:');
+    console.log('  npm run resolution-report -- [options]');
+    console.log('');
+    console.log('Options:');
+    console.log('  --log          Resolution log to read (default: SEMANTIC_RESOLUTION_LOG or ./test-results/semantic-resolution.jsonl)');
+    console.log('  --output-path  Output directory for the report (default: ./test-results)');
+    console.log('  --format       Output format (markdown, html, both) (default: both)');
+    console.log('  --help         Show this help message');
+    process.exit(0);
+  }
+
+  const logPath = args.log || getResolutionLogPath() || DEFAULT_RESOLUTION_LOG_PATH;
+  const outputPath = args['output-path'] || './test-results';
+  const format = args.format || 'both';
+
+  const events = readResolutionLog(logPath);
+  if (events.length === 0) {
+    console.log(`No resolution events found in ${logPath}`);
+    return;
+  }
+  console.log(`Read ${events.length} resolution events from ${logPath}`);
+
+  const descriptions = summarizeDescriptions(events);
+  const healed = summarizeHealedMappings(events);
+
+  if (!fs.existsSync(outputPath)) {
+    fs.mkdirSync(outputPath, { recursive: true });
+  }
+
+  if (format === 'markdown' || format === 'md' || format === 'both') {
+    const markdownPath = path.join(outputPath, 'semantic-resolution-report.md');
+    fs.writeFileSync(markdownPath, generateMarkdownReport(events, descriptions, healed));
+    console.log(`Markdown report saved to ${markdownPath}`);
+  }
+
+  if (format === 'html' || format === 'both') {
+    const htmlPath = path.join(outputPath, 'semantic-resolution-report.html');
+    fs.writeFileSync(htmlPath, generateHTMLReport(events, descriptions, healed));
+    console.log(`HTML report saved to ${htmlPath}`);
+  }
+
+  const fragileCount = descriptions.filter(summary => fallbackCount(summary) > 0).length;
+  console.log(`${fragileCount} fragile descriptions, ${healed.length} mappings to update`);
+}
+
+main().catch(error => {
+  console.error('Error:', error);
+  process.exit(1);
+});
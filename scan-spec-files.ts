@@ -4,6 +4,11 @@ import * as path from 'path';
 import * as glob from 'glob';
 import { MCPService } from './services/mcp-ai-service';
 import { DOMMonitor } from './dom-monitor';
+import { loadSemanticConfig } from './utils/semantic-config';
+import { getMappingBaseName, getPageKey } from './utils/page-routes';
+import { createStorageState, loadLoginRecipe } from './utils/auth';
+import { BrowserPool, isTransientNavigationError, runWithConcurrency, TurnOrder } from './utils/browser-pool';
+import { Browser } from '@playwright/test';
 
 // Cache of processed URLs in the current execution
 const processedUrlCache: Record<string, {
@@ -20,10 +25,28 @@ interface SpecFile {
   urls: string[];
 }
 
+/**
+ * Read the baseURL from the `use` section of a Playwright config file
+ * The file is scanned rather than loaded; `process.env.NAME || '...'` takes the variable when set
+ */
+function readPlaywrightBaseUrl(configPath: string): string | undefined {
+  if (!fs.existsSync(configPath)) {
+    return undefined;
+  }
+  
+  const content = fs.readFileSync(configPath, 'utf-8');
+  const match = content.match(/baseURL\s*:\s*(?:process\.env\.(\w+)\s*(?:\|\||\?\?)\s*)?['"`]([^'"`]+)['"`]/);
+  if (!match) {
+    return undefined;
+  }
+  return (match[1] && process.env[match[1]]) || match[2];
+}
+
 /**
  * Extract URLs from a Playwright test file
+ * Relative page.goto paths are resolved against baseUrl, and skipped without one
  */
-async function extractUrlsFromSpec(filePath: string): Promise<string[]> {
+async function extractUrlsFromSpec(filePath: string, baseUrl?: string): Promise<string[]> {
   const content = fs.readFileSync(filePath, 'utf-8');
   console.log(`Scanning file for URLs: ${filePath}`);
   
@@ -38,12 +61,22 @@ async function extractUrlsFromSpec(filePath: string): Promise<string[]> {
     /https?:\/\/([a-zA-Z0-9][-a-zA-Z0-9]*\.)+[a-zA-Z0-9]{2,}/g  // Direct URL strings
   ];
   
+  // Only navigation calls are trusted with relative paths
+  const navigationPatterns = [patterns[0], patterns[1], patterns[2], patterns[4]];
+  
   const urls: string[] = [];
   
   for (const pattern of patterns) {
     let match;
     while ((match = pattern.exec(content)) !== null) {
-      const url = match[1] || match[0]; // Use entire match if group 1 doesn't exist
+      let url = match[1] || match[0]; // Use entire match if group 1 doesn't exist
+      if (url.startsWith('/') && !url.startsWith('//') && navigationPatterns.includes(pattern)) {
+        if (!baseUrl) {
+          console.log(`Skipping relative URL without a baseURL: ${url}`);
+          continue;
+        }
+        url = new URL(url, baseUrl).toString();
+      }
       // Only add if it's a valid URL and not already in the list
       if (url && !urls.includes(url) && (url.startsWith('http') || url.startsWith('www'))) {
         console.log(`Found URL: ${url}`);
@@ -73,17 +106,31 @@ function extractFeatureName(filePath: string): string {
     .join('');
 }
 
+/**
+ * Group URLs by page type, so URLs matching the same route pattern are extracted once
+ * The first URL of each group is the one extracted
+ */
+function groupUrlsByPage(urls: string[]): Map<string, string[]> {
+  const routing = loadSemanticConfig();
+  const groups = new Map<string, string[]>();
+  for (const url of urls) {
+    const pageKey = getPageKey(url, routing);
+    groups.set(pageKey, [...(groups.get(pageKey) || []), url]);
+  }
+  return groups;
+}
+
 /**
  * Scan all spec files and extract URLs
  */
-async function scanSpecFiles(testsDirectory: string): Promise<SpecFile[]> {
+async function scanSpecFiles(testsDirectory: string, baseUrl?: string): Promise<SpecFile[]> {
   const specFiles = glob.sync(path.join(testsDirectory, '**/*.spec.ts'));
   const results: SpecFile[] = [];
   
   for (const filePath of specFiles) {
     const fileName = path.basename(filePath);
     const featureName = extractFeatureName(filePath);
-    const urls = await extractUrlsFromSpec(filePath);
+    const urls = await extractUrlsFromSpec(filePath, baseUrl);
     
     results.push({
       filePath,
@@ -96,32 +143,52 @@ async function scanSpecFiles(testsDirectory: string): Promise<SpecFile[]> {
   return results;
 }
 
+// DOMMonitor options shared by every page of a scan
+interface MonitorOptions {
+  storageState?: string;
+  states?: string;
+  // Browser of the pool the page is extracted in
+  browser?: Browser;
+}
+
+// A page to extract for a spec file
+interface ScanTask {
+  url: string;
+  featureName: string;
+  specFile: string;
+}
+
+interface ScanResult {
+  task: ScanTask;
+  attempts: number;
+  error?: string;
+}
+
+// Where the state of --login is saved when --storage-state isn't given
+const DEFAULT_STORAGE_STATE = 'test-results/.auth/storage-state.json';
+
 // Add a list to track all DOM monitors created
 const activeDOMMonitors: DOMMonitor[] = [];
 
 /**
- * Creates sanitized filename from URL and feature name
+ * Creates sanitized filename from URL and feature name, the same one the mapping file gets
  */
 function createSanitizedFilename(url: string, featureName: string): string {
-  // Remove protocol and special characters
-  const sanitizedUrl = url
-    .replace(/^https?:\/\//, '')
-    .replace(/[\/\?=&]/g, '_')
-    .replace(/[^a-zA-Z0-9_.-]/g, '');
-  
-  return `${featureName.toLowerCase()}_${sanitizedUrl}`;
+  return getMappingBaseName(url, featureName, loadSemanticConfig());
 }
 
 /**
  * Process a URL for a feature, extract DOM elements and generate semantic keys
+ * @param waitForTurn Resolves when the mapping may be saved; keys are made unique against the
+ * mappings already saved, so concurrent scans save in a fixed order
  */
-async function processUrlForFeature(url: string, featureName: string, outputPath: string, waitTime: number, skipScreenshots: boolean): Promise<void> {
+async function processUrlForFeature(url: string, featureName: string, outputPath: string, waitTime: number, skipScreenshots: boolean, monitorOptions: MonitorOptions = {}, waitForTurn: () => Promise<void> = async () => {}): Promise<void> {
   console.log(`Processing ${url} for feature "${featureName}"...`);
   
-  // Check if this URL was already processed in this execution
-  const cacheKey = `${url}_${featureName}`;
-  const now = Date.now();
+  // Check if this mapping file was already written in this execution
   const sanitizedFilename = createSanitizedFilename(url, featureName);
+  const cacheKey = sanitizedFilename;
+  const now = Date.now();
   const jsonPath = path.join(outputPath, `${sanitizedFilename}.json`);
   const htmlPath = path.join(outputPath, `${sanitizedFilename}.html`);
   
@@ -137,7 +204,8 @@ async function processUrlForFeature(url: string, featureName: string, outputPath
   const domMonitor = new DOMMonitor({
     outputPath,
     waitTimeout: waitTime,
-    featureName
+    featureName,
+    ...monitorOptions
   });
   
   // Track this monitor for cleanup
@@ -164,6 +232,7 @@ async function processUrlForFeature(url: string, featureName: string, outputPath
     elements = await domMonitor.generateSemanticKeys(elements);
     
     // Save reports
+    await waitForTurn();
     const reports = await domMonitor.saveReport(url, elements);
     console.log(`Reports saved:`);
     console.log(`- JSON: ${reports.jsonPath}`);
@@ -174,6 +243,10 @@ async function processUrlForFeature(url: string, featureName: string, outputPath
       await domMonitor.takeScreenshot(path.join(outputPath, `${sanitizedFilename}_screenshot.png`), true, skipScreenshots);
     }
     
+    for (const stateReport of await domMonitor.captureStates(url)) {
+      console.log(`- State '${stateReport.state}' saved to ${stateReport.jsonPath}`);
+    }
+    
     // Cache this URL processing for the current execution
     processedUrlCache[cacheKey] = {
       timestamp: now,
@@ -198,16 +271,62 @@ async function processUrlForFeature(url: string, featureName: string, outputPath
   }
 }
 
+/**
+ * Process a page with a browser of the pool, loading it again after transient navigation failures
+ */
+async function processTaskWithRetries(task: ScanTask, pool: BrowserPool, retries: number, outputPath: string, waitTime: number, skipScreenshots: boolean, monitorOptions: MonitorOptions, waitForTurn: () => Promise<void>): Promise<ScanResult> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await pool.withBrowser(browser =>
+        processUrlForFeature(task.url, task.featureName, outputPath, waitTime, skipScreenshots, { ...monitorOptions, browser }, waitForTurn));
+      return { task, attempts: attempt };
+    } catch (error) {
+      const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+      if (attempt > retries || !isTransientNavigationError(error)) {
+        return { task, attempts: attempt, error: message };
+      }
+      console.warn(`Retrying ${task.url} (${attempt}/${retries}) after: ${message}`);
+    }
+  }
+}
+
+/**
+ * Print the outcome of a scan, with every page that failed
+ */
+function printScanSummary(results: ScanResult[], specFileCount: number, skipped: number, startTime: number): void {
+  const failed = results.filter(result => result.error);
+  const retried = results.filter(result => result.attempts > 1);
+
+  console.log('\nScan summary');
+  console.log(`- Spec files: ${specFileCount}`);
+  console.log(`- Pages extracted: ${results.length - failed.length}/${results.length}`);
+  if (skipped > 0) {
+    console.log(`- Pages shared with an earlier spec file of the same feature: ${skipped}`);
+  }
+  if (retried.length > 0) {
+    console.log(`- Pages retried: ${retried.length} (${retried.filter(result => !result.error).length} succeeded on retry)`);
+  }
+  console.log(`- Duration: ${((Date.now() - startTime) / 1000).toFixed(1)}s`);
+
+  if (failed.length > 0) {
+    console.log(`\nFailed pages (${failed.length}):`);
+    for (const result of failed) {
+      const attempts = result.attempts > 1 ? `, ${result.attempts} attempts` : '';
+      console.log(`- ${result.task.url} (${result.task.featureName}, ${result.task.specFile}${attempts}): ${result.error}`);
+    }
+  }
+}
+
 /**
  * Process a URL directly (without feature context)
  */
-async function processUrl(url: string, outputPath: string, waitTime = 3000, skipScreenshots = false): Promise<void> {
+async function processUrl(url: string, outputPath: string, waitTime = 3000, skipScreenshots = false, monitorOptions: MonitorOptions = {}): Promise<void> {
   console.log(`Processing ${url}...`);
 
   // Use a generic feature name for direct URL processing
   const genericFeature = 'DirectScan';
-  const cacheKey = `${url}_${genericFeature}`;
   const sanitizedFilename = createSanitizedFilename(url, genericFeature);
+  const cacheKey = sanitizedFilename;
   
   // Check if this URL was already processed in this execution
   if (processedUrlCache[cacheKey]) {
@@ -221,7 +340,8 @@ async function processUrl(url: string, outputPath: string, waitTime = 3000, skip
   try {
     const domMonitor = new DOMMonitor({
       outputPath,
-      waitTimeout: waitTime
+      waitTimeout: waitTime,
+      ...monitorOptions
     });
     
     // Add to active monitors for cleanup
@@ -254,6 +374,10 @@ async function processUrl(url: string, outputPath: string, waitTime = 3000, skip
     // Take a screenshot for reference using the new public method, if not disabled
     await domMonitor.takeScreenshot(path.join(outputPath, `${sanitizedFilename}_screenshot.png`), true, skipScreenshots);
     
+    for (const stateReport of await domMonitor.captureStates(url)) {
+      console.log(`- State '${stateReport.state}' saved to ${stateReport.jsonPath}`);
+    }
+    
     // Cache this URL processing
     processedUrlCache[cacheKey] = {
       timestamp: Date.now(),
@@ -280,42 +404,81 @@ async function main() {
     console.log('  --tests-dir        Directory containing test spec files (default: ./tests)');
     console.log('  --output-path      Output directory for mappings (default: ./mappings)');
     console.log('  --url              Process a single URL directly (bypasses spec scanning)');
+    console.log('  --base-url         Base URL for relative page.goto paths (default: baseURL from the Playwright config)');
+    console.log('  --playwright-config Playwright config file to read baseURL from (default: ./playwright.config.ts)');
     console.log('  --wait-time        Wait time in ms after page load (default: 3000)');
     console.log('  --no-screenshots   Disable screenshot generation');
+    console.log('  --storage-state    Playwright storage state file to open pages with (saved there after --login)');
+    console.log('  --login            Login recipe JSON file, run once before scanning');
+    console.log('  --states           States file with the actions reaching modals, menus and wizard steps to capture');
+    console.log('  --concurrency      Pages extracted in parallel, each in a browser of a shared pool (default: 1)');
+    console.log('  --retries          Times a page is loaded again after a timeout or network error (default: 2)');
     console.log('  --help             Show this help message');
     process.exit(0);
   }
   
+  // Checked before anything is launched, so a typo fails fast instead of after logging in
+  const concurrencyArg = String(args.concurrency ?? 1);
+  if (!/^[1-9]\d*$/.test(concurrencyArg)) {
+    console.error(`Error: --concurrency must be a positive integer, got '${concurrencyArg}'. Run with --help for usage.`);
+    process.exit(1);
+  }
+  const retriesArg = String(args.retries ?? 2);
+  if (!/^\d+$/.test(retriesArg)) {
+    console.error(`Error: --retries must be a non-negative integer, got '${retriesArg}'. Run with --help for usage.`);
+    process.exit(1);
+  }
+  const concurrency = Number(concurrencyArg);
+  const retries = Number(retriesArg);
+  
   const testsDirectory = args['tests-dir'] || './tests';
   const outputPath = args['output-path'] || './mappings';
   const waitTime = args['wait-time'] || 3000;
   const skipScreenshots = args['no-screenshots'] || false;
+  const baseUrl = args['base-url'] || readPlaywrightBaseUrl(args['playwright-config'] || './playwright.config.ts');
   
   // Ensure output directory exists
   if (!fs.existsSync(outputPath)) {
     fs.mkdirSync(outputPath, { recursive: true });
   }
   
+  // Log in once, every extraction reuses the saved state
+  let storageState: string | undefined = args['storage-state'];
+  if (args.login) {
+    storageState = await createStorageState(loadLoginRecipe(args.login), storageState || DEFAULT_STORAGE_STATE);
+  }
+  
+  const monitorOptions: MonitorOptions = { storageState, states: args.states };
+  
   // If URL is provided directly, process it
   if (args.url) {
-    await processUrl(args.url, outputPath, waitTime, skipScreenshots);
+    await processUrl(baseUrl ? new URL(args.url, baseUrl).toString() : args.url, outputPath, waitTime, skipScreenshots, monitorOptions);
     console.log('Done!');
     return;
   }
   
   // Otherwise scan spec files
   console.log(`Scanning spec files in ${testsDirectory}...`);
-  const specFiles = await scanSpecFiles(testsDirectory);
+  if (baseUrl) {
+    console.log(`Resolving relative URLs against ${baseUrl}`);
+  }
+  const specFiles = await scanSpecFiles(testsDirectory, baseUrl);
   
   console.log(`Found ${specFiles.length} spec files`);
   
+  // Closed in the finally block below, once created
+  let pool: BrowserPool | undefined;
+  
   try {
-    // Process each URL found in spec files
-    let processedUrls = 0;
-    let failedUrls = 0;
+    const browsers = pool = new BrowserPool(concurrency);
+    
+    // Collect one URL per page type of each spec file
+    const tasks: ScanTask[] = [];
+    const queuedPages = new Set<string>();
+    let skipped = 0;
     
     for (const specFile of specFiles) {
-      console.log(`\nProcessing spec file: ${specFile.fileName}`);
+      console.log(`\nSpec file: ${specFile.fileName}`);
       console.log(`Feature name: ${specFile.featureName}`);
       console.log(`URLs found: ${specFile.urls.length}`);
       
@@ -324,24 +487,49 @@ async function main() {
         continue;
       }
       
-      // Process each URL in the spec file
-      for (const url of specFile.urls) {
-        try {
-          console.log(`\nProcessing URL (${processedUrls + 1}/${specFile.urls.length}): ${url}`);
-          await processUrlForFeature(url, specFile.featureName, outputPath, waitTime, skipScreenshots);
-          processedUrls++;
-        } catch (error) {
-          failedUrls++;
-          console.error(`Failed to process URL: ${url}`, error);
-          console.log('Continuing with next URL...');
+      const pages = groupUrlsByPage(specFile.urls);
+      if (pages.size < specFile.urls.length) {
+        console.log(`Page types: ${pages.size}`);
+        for (const [pageKey, urls] of pages) {
+          if (urls.length > 1) {
+            console.log(`- ${pageKey}: ${urls.length} URLs, extracting ${urls[0]}`);
+          }
         }
       }
+      
+      // Pages written to the same mapping file, e.g. by spec files of the same feature or paths
+      // like /a/b and /a_b, are extracted once, since only one worker may write a file
+      for (const [, [url]] of pages) {
+        const fileName = createSanitizedFilename(url, specFile.featureName);
+        if (queuedPages.has(fileName)) {
+          skipped++;
+          continue;
+        }
+        queuedPages.add(fileName);
+        tasks.push({ url, featureName: specFile.featureName, specFile: specFile.fileName });
+      }
     }
     
-    console.log(`\nProcessed ${processedUrls} URLs successfully from ${specFiles.length} spec files`);
-    if (failedUrls > 0) {
-      console.log(`Failed to process ${failedUrls} URLs`);
-    }
+    console.log(`\nExtracting ${tasks.length} pages with ${Math.min(concurrency, tasks.length)} browsers, ${retries} retries per page`);
+    const startTime = Date.now();
+    const results: ScanResult[] = [];
+    // Mappings are saved in task order, so key collisions across pages resolve the same way
+    // whatever order the pages finish extracting in
+    const saveOrder = new TurnOrder(tasks.length);
+    
+    await runWithConcurrency(tasks, concurrency, async (task, index) => {
+      let result: ScanResult;
+      try {
+        result = await processTaskWithRetries(task, browsers, retries, outputPath, waitTime, skipScreenshots, monitorOptions, () => saveOrder.turn(index));
+      } finally {
+        saveOrder.done(index);
+      }
+      results.push(result);
+      const failedCount = results.filter(done => done.error).length;
+      console.log(`[${results.length}/${tasks.length}] ${result.error ? 'Failed' : 'Done'}: ${task.url} (${failedCount} failed so far)`);
+    });
+    
+    printScanSummary(results, specFiles.length, skipped, startTime);
     console.log('Done!');
   } catch (error) {
     console.error('Error during processing:', error);
@@ -357,6 +545,7 @@ async function main() {
     });
     
     await Promise.all(closePromises);
+    await pool?.close();
     console.log('All cleanup complete. Exiting...');
     
     // Force exit after a short delay if needed
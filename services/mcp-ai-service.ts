@@ -1,4 +1,7 @@
 import { BrowserContext, Page } from 'playwright';
+import { assignStableIds, ElementNeighbors, reassociateStableIds } from '../utils/element-fingerprint';
+import { installNeighborsHelper, NEIGHBORS_HELPER } from '../utils/element-neighbors';
+import { DOMElement } from '../utils/semantic-helper';
 
 // At the top of the file, add this declaration
 interface Window {
@@ -35,8 +38,9 @@ export class MCPService {
 
   /**
    * Generate semantic keys for a page using MCP
+   * @param previousElements Elements of the page's existing mapping, so stable IDs carry over
    */
-  async generateSemanticKeysForPage(url: string): Promise<any[]> {
+  async generateSemanticKeysForPage(url: string, previousElements: DOMElement[] = []): Promise<any[]> {
     console.log(`Analyzing page via Cursor MCP: ${url}`);
     
     try {
@@ -46,7 +50,7 @@ export class MCPService {
       }
       
       // Extract DOM elements using the connected page
-      const elements = await this.extractDOMElements();
+      const elements = await this.extractDOMElements(previousElements);
       console.log(`Extracted ${elements.length} elements from page via MCP`);
       
       // Get semantic keys using MCP AI prompt with improved semantic key guidelines
@@ -109,7 +113,7 @@ export class MCPService {
       console.log('Falling back to rule-based approach');
       
       // Extract elements using the connected page but generate keys with rules
-      const elements = await this.extractDOMElements();
+      const elements = await this.extractDOMElements(previousElements);
       const elementsWithKeys = elements.map(element => ({
         ...element,
         semanticKey: this.generateRuleBasedSemanticKey(element)
@@ -460,20 +464,26 @@ export class MCPService {
 
   /**
    * Extract DOM elements from the current page using Playwright
+   * @param previousElements Elements of the page's existing mapping, whose stable IDs are kept
    */
-  private async extractDOMElements(): Promise<any[]> {
+  private async extractDOMElements(previousElements: DOMElement[]): Promise<any[]> {
     if (!this.page) {
       throw new Error('Page not initialized');
     }
 
-    const elements = await this.page.evaluate(() => {
+    await this.page.evaluate(installNeighborsHelper, NEIGHBORS_HELPER);
+    const elements = await this.page.evaluate((neighborsHelper: string) => {
       const extractedElements: Array<{
         tagName: string;
         attributes: Record<string, string>;
         innerText: string;
         xpath: string;
+        neighbors: ElementNeighbors;
       }> = [];
       
+      // Surroundings used for stable IDs, captured by the helper DOMMonitor uses
+      const getNeighbors = (window as any)[neighborsHelper] as (element: Element) => ElementNeighbors;
+      
       const allElements = document.querySelectorAll('a, button, input, select, h1, h2, h3, h4, h5, label, form');
       
       allElements.forEach((el) => {
@@ -513,14 +523,16 @@ export class MCPService {
           tagName: el.tagName.toLowerCase(),
           attributes,
           innerText: innerText.trim(),
-          xpath: getXPath(el)
+          xpath: getXPath(el),
+          neighbors: getNeighbors(el)
         });
       });
       
       return extractedElements;
-    });
+    }, NEIGHBORS_HELPER);
 
-    return elements;
+    // Carry stable IDs over from the page's previous mapping, as DOMMonitor does when saving
+    return reassociateStableIds(previousElements, assignStableIds(elements)).elements;
   }
 
   /**
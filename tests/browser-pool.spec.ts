@@ -0,0 +1,164 @@
+import { test, expect } from '@playwright/test';
+import type { Browser } from '@playwright/test';
+import { BrowserPool, isTransientNavigationError, runWithConcurrency, TurnOrder } from '../utils/browser-pool';
+
+/**
+ * Stand-in for a launched browser that records whether it was closed
+ */
+class FakeBrowser {
+  connected = true;
+  closed = false;
+
+  constructor(public id: number) {}
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.connected = false;
+  }
+}
+
+function createPool(size: number) {
+  const launched: FakeBrowser[] = [];
+  const pool = new BrowserPool(size, async () => {
+    const browser = new FakeBrowser(launched.length + 1);
+    launched.push(browser);
+    return browser as unknown as Browser;
+  });
+  return { pool, launched };
+}
+
+const id = (browser: Browser) => (browser as unknown as FakeBrowser).id;
+
+test.describe('BrowserPool', () => {
+  test('rejects sizes that are not positive integers', () => {
+    expect(() => new BrowserPool(0)).toThrow('positive integer');
+    expect(() => new BrowserPool(1.5)).toThrow('positive integer');
+  });
+
+  test('launches browsers on demand up to its size and reuses released ones', async () => {
+    const { pool, launched } = createPool(2);
+
+    const first = await pool.acquire();
+    const second = await pool.acquire();
+    expect([id(first), id(second)]).toEqual([1, 2]);
+
+    pool.release(first);
+    expect(id(await pool.acquire())).toBe(1);
+    expect(launched).toHaveLength(2);
+  });
+
+  test('hands a released browser to the next worker waiting for one', async () => {
+    const { pool, launched } = createPool(1);
+
+    const browser = await pool.acquire();
+    const waiting = pool.acquire();
+    pool.release(browser);
+
+    expect(await waiting).toBe(browser);
+    expect(launched).toHaveLength(1);
+  });
+
+  test('replaces a browser that disconnected', async () => {
+    const { pool, launched } = createPool(1);
+
+    const browser = await pool.acquire();
+    (browser as unknown as FakeBrowser).connected = false;
+    pool.release(browser);
+
+    expect(id(await pool.acquire())).toBe(2);
+    expect(launched).toHaveLength(2);
+  });
+
+  test('releases the browser when a task fails', async () => {
+    const { pool, launched } = createPool(1);
+
+    await expect(pool.withBrowser(async () => { throw new Error('page crashed'); })).rejects.toThrow('page crashed');
+    expect(id(await pool.acquire())).toBe(1);
+    expect(launched).toHaveLength(1);
+  });
+
+  test('frees its slot when a launch fails', async () => {
+    let attempts = 0;
+    const pool = new BrowserPool(1, async () => {
+      attempts++;
+      if (attempts === 1) {
+        throw new Error('launch failed');
+      }
+      return new FakeBrowser(attempts) as unknown as Browser;
+    });
+
+    await expect(pool.acquire()).rejects.toThrow('launch failed');
+    expect(id(await pool.acquire())).toBe(2);
+  });
+
+  test('closes every browser it launched', async () => {
+    const { pool, launched } = createPool(2);
+
+    await pool.acquire();
+    pool.release(await pool.acquire());
+    await pool.close();
+
+    expect(launched.map(browser => browser.closed)).toEqual([true, true]);
+  });
+});
+
+test.describe('isTransientNavigationError', () => {
+  test('recognizes timeouts, network errors and closed browsers', () => {
+    const timeout = new Error('page.goto: Timeout 30000ms exceeded.');
+    expect(isTransientNavigationError(timeout)).toBe(true);
+    expect(isTransientNavigationError(new Error('page.goto: net::ERR_CONNECTION_REFUSED at http://localhost:3000/'))).toBe(true);
+    expect(isTransientNavigationError(new Error('Target page, context or browser has been closed'))).toBe(true);
+  });
+
+  test('leaves other errors to fail the page', () => {
+    expect(isTransientNavigationError(new Error('Cannot read properties of undefined'))).toBe(false);
+    expect(isTransientNavigationError('mapping file is invalid')).toBe(false);
+  });
+});
+
+test.describe('runWithConcurrency', () => {
+  test('runs every item with at most the given number at once', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const done: number[] = [];
+
+    await runWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, index) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      done.push(index);
+      running--;
+    });
+
+    expect(maxRunning).toBe(2);
+    expect([...done].sort()).toEqual([0, 1, 2, 3, 4]);
+  });
+});
+
+test.describe('TurnOrder', () => {
+  test('lets tasks take their turn in item order, whatever order they get there in', async () => {
+    const order = new TurnOrder(4);
+    const turns: number[] = [];
+
+    await runWithConcurrency([40, 5, 20, 1], 4, async (delay, index) => {
+      try {
+        await new Promise(resolve => setTimeout(resolve, delay));
+        if (index === 2) {
+          throw new Error('extraction failed');
+        }
+        await order.turn(index);
+        turns.push(index);
+      } catch {
+        // A failed task still hands over its turn
+      } finally {
+        order.done(index);
+      }
+    });
+
+    expect(turns).toEqual([0, 1, 3]);
+  });
+});
@@ -0,0 +1,94 @@
+import { test, expect } from '@playwright/test';
+import { DEFAULT_SCORING_CONFIG, DescriptionScorer } from '../utils/description-scorer';
+import { buildElement } from './fixtures';
+
+test.describe('DescriptionScorer.tokenize', () => {
+  test('drops stop words and stems words', () => {
+    const scorer = new DescriptionScorer();
+    expect(scorer.tokenize('Delete the selected entries')).toEqual(['delete', 'select', 'entry']);
+    expect(scorer.tokenize('search_buttons')).toEqual(['search', 'button']);
+  });
+
+  test('folds synonyms onto the first phrase of their group', () => {
+    const scorer = new DescriptionScorer();
+    expect(scorer.tokenize('sign in')).toEqual(['login']);
+    expect(scorer.tokenize('e-mail address field')).toEqual(['email', 'field']);
+  });
+
+  test('follows the configured stemming, stop words and synonyms', () => {
+    const scorer = new DescriptionScorer({ stemming: false, stopWords: ['please'], synonyms: [['basket', 'cart']] });
+    expect(scorer.tokenize('please open the cart items')).toEqual(['open', 'the', 'basket', 'items']);
+  });
+});
+
+test.describe('DescriptionScorer.rank', () => {
+  const login = buildElement({ semanticKey: 'auth_login_button', innerText: 'Log in' });
+  const signup = buildElement({ semanticKey: 'auth_signup_button', innerText: 'Create account' });
+
+  test('resolves a description through synonyms', () => {
+    const [best] = new DescriptionScorer().rank('sign in', [signup, login]);
+    expect(best.element).toBe(login);
+  });
+
+  test('boosts elements of the requested feature', () => {
+    const profileSave = buildElement({ semanticKey: 'profile_save_button', featureName: 'profile' });
+    const settingsSave = buildElement({ semanticKey: 'settings_save_button', featureName: 'settings' });
+
+    const [best] = new DescriptionScorer().rank('save button', [profileSave, settingsSave], { featureName: 'settings' });
+    expect(best.element).toBe(settingsSave);
+    expect(best.breakdown.feature).toBe(20);
+  });
+
+  test('ranks by the configured weights', () => {
+    const byKey = buildElement({ semanticKey: 'form_save', innerText: 'Submit' });
+    const byText = buildElement({ semanticKey: 'form_submit', innerText: 'Save changes' });
+
+    const [defaultBest] = new DescriptionScorer().rank('save changes', [byText, byKey]);
+    expect(defaultBest.element).toBe(byKey);
+
+    const textFirst = new DescriptionScorer({ weights: { ...DEFAULT_SCORING_CONFIG.weights, keyWord: 1, keySubstring: 0, textWord: 20 } });
+    const [weightedBest] = textFirst.rank('save changes', [byKey, byText]);
+    expect(weightedBest.element).toBe(byText);
+  });
+
+  test('leaves out elements scoring below the minimum score', () => {
+    expect(new DescriptionScorer({ minScore: 50 }).rank('log in', [login, signup])).toEqual([]);
+  });
+
+  test('tells when the runner-up is too close to the top match', () => {
+    const scorer = new DescriptionScorer({ ambiguityRatio: 0.9 });
+    expect(scorer.isAmbiguous(100, 90)).toBe(true);
+    expect(scorer.isAmbiguous(100, 80)).toBe(false);
+  });
+});
+
+test.describe('DescriptionScorer fuzzy matching', () => {
+  const search = buildElement({ semanticKey: 'header_search_button', innerText: 'Search' });
+  const subscribe = buildElement({ semanticKey: 'footer_subscribe_button', innerText: 'Subscribe' });
+
+  test('matches misspelled words and records how', () => {
+    const [best] = new DescriptionScorer().rank('serach buton', [subscribe, search]);
+
+    expect(best.element).toBe(search);
+    expect(best.quality).toBeLessThan(1);
+    expect(best.quality).toBeGreaterThan(0.8);
+    expect(best.breakdown.fuzzyMatches.map(match => [match.word, match.matched])).toEqual([['serach', 'search'], ['buton', 'button']]);
+  });
+
+  test('reports full quality when every word matches exactly', () => {
+    const [best] = new DescriptionScorer().rank('search button', [search]);
+    expect(best.quality).toBe(1);
+    expect(best.breakdown.fuzzyMatches).toEqual([]);
+  });
+
+  test('leaves short and dissimilar words unmatched', () => {
+    const scorer = new DescriptionScorer();
+    expect(scorer.scoreElement('btn', search).fuzzyMatches).toEqual([]);
+    expect(scorer.scoreElement('subscription', search).quality).toBe(0);
+  });
+
+  test('can be turned off or made stricter', () => {
+    expect(new DescriptionScorer({ fuzzy: false }).scoreElement('serach', search).quality).toBe(0);
+    expect(new DescriptionScorer({ fuzzyThreshold: 0.99 }).scoreElement('serach', search).fuzzyMatches).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+import { test, expect } from '@playwright/test';
+import { ElementNeighbors, assignStableIds, reassociateStableIds } from '../utils/element-fingerprint';
+import { installNeighborsHelper, NEIGHBORS_HELPER } from '../utils/element-neighbors';
+import { buildElement } from './fixtures';
+
+/**
+ * Stand-in for a DOM element, supporting the selectors the neighbors helper uses:
+ * lists of tag names and [attr] or [attr=value] conditions
+ */
+class FakeElement {
+  tagName: string;
+  parentElement: FakeElement | null = null;
+  children: FakeElement[] = [];
+
+  constructor(tagName: string, private attributes: Record<string, string> = {}, private text: string = '') {
+    this.tagName = tagName.toUpperCase();
+  }
+
+  get id(): string {
+    return this.attributes.id || '';
+  }
+
+  get textContent(): string {
+    return [this.text, ...this.children.map(child => child.textContent)].filter(Boolean).join(' ');
+  }
+
+  get previousElementSibling(): FakeElement | null {
+    return this.parentElement?.children[this.parentElement.children.indexOf(this) - 1] || null;
+  }
+
+  get nextElementSibling(): FakeElement | null {
+    return this.parentElement?.children[this.parentElement.children.indexOf(this) + 1] || null;
+  }
+
+  append(...children: FakeElement[]): FakeElement {
+    children.forEach(child => {
+      child.parentElement = this;
+      this.children.push(child);
+    });
+    return this;
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributes[name] ?? null;
+  }
+
+  matches(selectors: string): boolean {
+    return selectors.split(',').some(selector => {
+      const [, tagName, attribute, value] = selector.trim().match(/^([a-z0-9]*)(?:\[([\w-]+)(?:=([\w-]+))?\])?$/)!;
+      return (!tagName || this.tagName === tagName.toUpperCase()) &&
+        (!attribute || (value === undefined ? attribute in this.attributes : this.attributes[attribute] === value));
+    });
+  }
+
+  closest(selectors: string): FakeElement | null {
+    for (let current: FakeElement | null = this; current; current = current.parentElement) {
+      if (current.matches(selectors)) return current;
+    }
+    return null;
+  }
+
+  querySelectorAll(selectors: string): FakeElement[] {
+    return this.children.flatMap(child => [...(child.matches(selectors) ? [child] : []), ...child.querySelectorAll(selectors)]);
+  }
+
+  getRootNode(): FakeElement {
+    return this.parentElement ? this.parentElement.getRootNode() : this;
+  }
+}
+
+const el = (tagName: string, attributes: Record<string, string> = {}, text: string = '') => new FakeElement(tagName, attributes, text);
+
+test.describe('installNeighborsHelper', () => {
+  let getNeighbors: (element: FakeElement) => ElementNeighbors;
+
+  test.beforeAll(() => {
+    const window = {} as any;
+    (globalThis as any).window = window;
+    installNeighborsHelper(NEIGHBORS_HELPER);
+    getNeighbors = window[NEIGHBORS_HELPER];
+    delete (globalThis as any).window;
+  });
+
+  const home = el('a', { href: '/' }, 'Home');
+  const firstDelete = el('button', {}, 'Delete');
+  const secondDelete = el('button', {}, 'Delete');
+  const street = el('input', { name: 'street' });
+  el('html').append(
+    el('body').append(
+      el('header').append(el('nav', { 'aria-label': 'Main' }).append(home)),
+      el('main').append(
+        el('h2', {}, 'Users'),
+        el('ul').append(
+          el('li').append(el('span', {}, 'Alice'), firstDelete),
+          el('li').append(el('span', {}, 'Bob'), secondDelete)
+        )
+      ),
+      el('form', { id: 'billing' }).append(el('h3', {}, 'Address'), street, el('button', {}, 'Save'))
+    )
+  );
+
+  test('names the enclosing landmark by its id or label', () => {
+    expect(getNeighbors(street).landmark).toBe('form#billing');
+    expect(getNeighbors(home).landmark).toBe('nav[aria-label=Main]');
+  });
+
+  test('finds the closest heading before the element, outside its own ancestors', () => {
+    expect(getNeighbors(secondDelete)).toEqual({
+      landmark: 'main',
+      heading: 'Users',
+      previous: 'Bob',
+      next: undefined,
+      listItem: 2,
+      index: 1
+    });
+  });
+
+  test('records sibling text and the position inside the landmark', () => {
+    expect(getNeighbors(street)).toMatchObject({ heading: 'Address', previous: 'Address', next: 'Save', listItem: undefined, index: 0 });
+    expect(getNeighbors(firstDelete)).toMatchObject({ previous: 'Alice', listItem: 1, index: 0 });
+  });
+});
+
+test.describe('reassociateStableIds', () => {
+  const deleteButton = (heading: string, previous: string, xpath: string) =>
+    buildElement({ innerText: 'Delete', xpath, neighbors: { landmark: 'main', heading, previous, index: 0 } });
+
+  test('keeps the stable ID of an element whose heading changed', () => {
+    const [before] = assignStableIds([deleteButton('Users', 'Alice', '/html/body/main/ul/li[1]/button')]);
+    const [after] = assignStableIds([deleteButton('Team members', 'Alice', '/html/body/main/ul/li[1]/button')]);
+    expect(after.stableId).not.toBe(before.stableId);
+
+    const { elements, summary } = reassociateStableIds([before], [after]);
+
+    expect(elements[0].stableId).toBe(before.stableId);
+    expect(elements[0].stableIdConfidence).toBeGreaterThanOrEqual(0.6);
+    expect(summary).toEqual({ matched: 1, recovered: 1, added: 0 });
+  });
+
+  test('gives elements with other neighbors and text an ID of their own', () => {
+    const [before] = assignStableIds([deleteButton('Users', 'Alice', '/html/body/main/ul/li[1]/button')]);
+    const [after] = assignStableIds([
+      buildElement({ innerText: 'Export', xpath: '/html/body/footer/button', neighbors: { landmark: 'footer', previous: 'Reports', index: 0 } })
+    ]);
+
+    const { elements, summary } = reassociateStableIds([before], [after]);
+
+    expect(elements[0].stableId).toBe(after.stableId);
+    expect(elements[0].stableIdConfidence).toBeUndefined();
+    expect(summary).toEqual({ matched: 0, recovered: 0, added: 1 });
+  });
+});
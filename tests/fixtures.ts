@@ -0,0 +1,15 @@
+import { DOMElement } from '../utils/semantic-helper';
+
+let position = 0;
+
+/**
+ * Builds a mapped button for unit specs, with an xpath no other built element has
+ */
+export function buildElement(overrides: Partial<DOMElement> = {}): DOMElement {
+  return {
+    tagName: 'button',
+    attributes: {},
+    xpath: `/html/body/button[${++position}]`,
+    ...overrides
+  };
+}
@@ -0,0 +1,83 @@
+import { test, expect } from '@playwright/test';
+import { resolveKeyCollisions } from '../utils/key-collisions';
+import { DOMElement } from '../utils/semantic-helper';
+import { buildElement } from './fixtures';
+
+function element(semanticKey: string, overrides: Partial<DOMElement> = {}): DOMElement {
+  return buildElement({ innerText: 'Delete', semanticKey, ...overrides });
+}
+
+test.describe('resolveKeyCollisions', () => {
+  test('leaves unique keys alone', () => {
+    const { elements, renamed, unresolved } = resolveKeyCollisions([element('button_save'), element('button_cancel')]);
+    expect(elements.map(e => e.semanticKey)).toEqual(['button_save', 'button_cancel']);
+    expect(renamed).toBe(0);
+    expect(unresolved).toEqual([]);
+  });
+
+  test('qualifies keys with the nearest heading', () => {
+    const { elements, renamed } = resolveKeyCollisions([
+      element('button_delete', { neighbors: { heading: 'Users' } }),
+      element('button_delete', { neighbors: { heading: 'Groups' } })
+    ]);
+    expect(elements.map(e => e.semanticKey)).toEqual(['button_delete_in_users', 'button_delete_in_groups']);
+    expect(renamed).toBe(2);
+  });
+
+  test('falls back to the landmark, then the list item', () => {
+    const byLandmark = resolveKeyCollisions([
+      element('button_delete', { neighbors: { landmark: 'form#billing', heading: 'Address' } }),
+      element('button_delete', { neighbors: { landmark: 'nav[aria-label=Main menu]', heading: 'Address' } })
+    ]);
+    expect(byLandmark.elements.map(e => e.semanticKey)).toEqual(['button_delete_in_billing_form', 'button_delete_in_main_menu_nav']);
+
+    const byItem = resolveKeyCollisions([
+      element('button_delete', { neighbors: { heading: 'Todos', listItem: 1 } }),
+      element('button_delete', { neighbors: { heading: 'Todos', listItem: 2 } })
+    ]);
+    expect(byItem.elements.map(e => e.semanticKey)).toEqual(['button_delete_item_1', 'button_delete_item_2']);
+  });
+
+  test('never renames locked keys', () => {
+    const { elements } = resolveKeyCollisions([
+      element('button_delete', { locked: true, neighbors: { heading: 'Users' } }),
+      element('button_delete', { neighbors: { heading: 'Groups' } })
+    ]);
+    expect(elements.map(e => e.semanticKey)).toEqual(['button_delete', 'button_delete_in_groups']);
+  });
+
+  test('reports elements without any context to tell them apart', () => {
+    const { elements, unresolved } = resolveKeyCollisions([element('button_delete'), element('button_delete')]);
+    expect(elements.map(e => e.semanticKey)).toEqual(['button_delete', 'button_delete']);
+    expect(unresolved).toHaveLength(1);
+    expect(unresolved[0].semanticKey).toBe('button_delete');
+    expect(unresolved[0].elements).toHaveLength(2);
+  });
+
+  test('qualifies keys used by a different element on another page', () => {
+    const other = element('button_delete', { innerText: 'Remove account', attributes: { id: 'remove-account' }, xpath: '/html/body/main/button' });
+    const { elements, unresolved } = resolveKeyCollisions(
+      [element('button_delete', { attributes: { id: 'delete-user' }, neighbors: { heading: 'Users' } })],
+      { 'mappings/settings.json': [other] }
+    );
+    expect(elements[0].semanticKey).toBe('button_delete_in_users');
+    expect(unresolved).toEqual([]);
+  });
+
+  test('keeps the key of an element shared with another page', () => {
+    const logo = element('link_home', { tagName: 'a', innerText: 'Home', attributes: { id: 'home', href: '/' }, xpath: '/html/body/header/a' });
+    const { elements, renamed } = resolveKeyCollisions([{ ...logo }], { 'mappings/cart.json': [{ ...logo }] });
+    expect(elements[0].semanticKey).toBe('link_home');
+    expect(renamed).toBe(0);
+  });
+
+  test('does not qualify into a key another page already uses', () => {
+    const { elements } = resolveKeyCollisions([
+      element('button_delete', { neighbors: { heading: 'Users', listItem: 1 } }),
+      element('button_delete', { neighbors: { heading: 'Groups', listItem: 2 } })
+    ], {
+      'mappings/admin.json': [element('button_delete_in_users', { innerText: 'Delete users', attributes: { id: 'delete-users' } })]
+    });
+    expect(elements.map(e => e.semanticKey)).toEqual(['button_delete_item_1', 'button_delete_item_2']);
+  });
+});
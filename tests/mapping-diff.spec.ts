@@ -0,0 +1,72 @@
+import { test, expect } from '@playwright/test';
+import { diffMappings, elementSimilarity, getElementChanges, matchElements } from '../utils/mapping-diff';
+import { buildElement } from './fixtures';
+
+const save = buildElement({ stableId: 'save', semanticKey: 'profile_save_button', innerText: 'Save', attributes: { id: 'save' } });
+const email = buildElement({
+  tagName: 'input',
+  stableId: 'email',
+  semanticKey: 'profile_email_input',
+  attributes: { name: 'email', type: 'email' },
+  xpath: '/html/body/form/input[1]'
+});
+
+test.describe('elementSimilarity', () => {
+  test('is 1 for identical elements and 0 across tag names', () => {
+    expect(elementSimilarity(save, { ...save })).toBe(1);
+    expect(elementSimilarity(save, { ...save, tagName: 'a' })).toBe(0);
+  });
+
+  test('stays high when only the text changed', () => {
+    expect(elementSimilarity(save, { ...save, innerText: 'Save changes' })).toBeGreaterThan(0.6);
+  });
+});
+
+test.describe('matchElements', () => {
+  test('pairs elements by stable ID first, then by similarity', () => {
+    const renumbered = { ...email, stableId: 'email_2' };
+    const { matches, unmatchedBefore, unmatchedAfter } = matchElements([save, email], [renumbered, { ...save }]);
+
+    expect(matches.map(match => [match.before.stableId, match.after.stableId, match.matchedBy]))
+      .toEqual([['save', 'save', 'stableId'], ['email', 'email_2', 'similarity']]);
+    expect(unmatchedBefore).toEqual([]);
+    expect(unmatchedAfter).toEqual([]);
+  });
+
+  test('leaves elements less similar than the minimum unmatched', () => {
+    const other = buildElement({ stableId: 'export', semanticKey: 'profile_export_button', innerText: 'Export', attributes: { id: 'export' } });
+    const { matches, unmatchedBefore, unmatchedAfter } = matchElements([save], [other]);
+
+    expect(matches).toEqual([]);
+    expect(unmatchedBefore).toEqual([save]);
+    expect(unmatchedAfter).toEqual([other]);
+  });
+});
+
+test.describe('getElementChanges', () => {
+  test('lists every kind of change', () => {
+    const after = { ...save, semanticKey: 'profile_submit_button', innerText: 'Submit', attributes: { id: 'save', disabled: '' }, framePath: ['iframe#settings'] };
+    expect(getElementChanges(save, after)).toEqual(['moved', 'renamed', 'text', 'attributes']);
+  });
+
+  test('ignores whitespace, case and attribute order', () => {
+    const before = { ...email, innerText: 'Your  email' };
+    const after = { ...email, innerText: 'your email', attributes: { type: 'email', name: 'email' } };
+    expect(getElementChanges(before, after)).toEqual([]);
+  });
+});
+
+test.describe('diffMappings', () => {
+  test('reports added, removed, changed and unchanged elements', () => {
+    const newsletter = buildElement({ tagName: 'input', stableId: 'newsletter', attributes: { name: 'newsletter', type: 'checkbox' } });
+    const relabelled = { ...save, innerText: 'Save profile' };
+
+    const diff = diffMappings([save, email], [relabelled, newsletter]);
+
+    expect(diff.added).toEqual([newsletter]);
+    expect(diff.removed).toEqual([email]);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0]).toMatchObject({ before: save, after: relabelled, changes: ['text'] });
+    expect(diff.unchanged).toBe(0);
+  });
+});
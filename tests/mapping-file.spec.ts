@@ -0,0 +1,92 @@
+import { test, expect } from '@playwright/test';
+import { MAPPING_SCHEMA_VERSION, upgradeMappingData, validateMapping } from '../utils/mapping-file';
+import { buildElement } from './fixtures';
+
+const login = buildElement({ semanticKey: 'auth_login_button', featureName: 'auth', url: 'http://localhost/login', innerText: 'Log in' });
+
+test.describe('upgradeMappingData', () => {
+  test('wraps a legacy array of elements and fills in the metadata', () => {
+    const upgraded = upgradeMappingData([login, buildElement({ semanticKey: 'auth_email_input' })]);
+
+    expect(upgraded).toEqual({
+      schemaVersion: MAPPING_SCHEMA_VERSION,
+      metadata: { url: 'http://localhost/login', featureName: 'auth', elementCount: 2 },
+      elements: [login, expect.objectContaining({ semanticKey: 'auth_email_input' })]
+    });
+    expect(validateMapping(upgraded)).toEqual([]);
+  });
+
+  test('versions an unversioned object and keeps its metadata and collections', () => {
+    const collection = {
+      semanticKey: 'todo_items',
+      containerSelector: 'ul.todos',
+      itemSelector: ':scope > li',
+      itemTag: 'li',
+      itemCount: 3,
+      template: [{ tagName: 'button', semanticKey: 'todo_delete_button', selector: 'button.delete', attributes: { class: 'delete' } }]
+    };
+    const upgraded = upgradeMappingData({
+      metadata: { url: 'http://localhost/todos', timestamp: '2026-01-01T00:00:00.000Z', elementCount: 10 },
+      elements: [login],
+      collections: [collection]
+    });
+
+    expect(upgraded.schemaVersion).toBe(MAPPING_SCHEMA_VERSION);
+    expect(upgraded.metadata).toEqual({
+      url: 'http://localhost/todos',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      featureName: 'auth',
+      elementCount: 1
+    });
+    expect(upgraded.collections).toEqual([collection]);
+    expect(validateMapping(upgraded)).toEqual([]);
+  });
+
+  test('rejects a mapping written by a newer version', () => {
+    const future = { schemaVersion: MAPPING_SCHEMA_VERSION + 1, metadata: {}, elements: [] };
+    expect(() => upgradeMappingData(future, 'mappings/home.json'))
+      .toThrow(`mappings/home.json uses mapping schema version ${MAPPING_SCHEMA_VERSION + 1}`);
+  });
+
+  test('rejects data that is not a mapping', () => {
+    expect(() => upgradeMappingData({ items: [] }, 'notes.json')).toThrow('Unrecognized mapping file format in notes.json');
+  });
+});
+
+test.describe('validateMapping', () => {
+  test('reports what the schema rejects, naming the element', () => {
+    const errors = validateMapping({
+      schemaVersion: MAPPING_SCHEMA_VERSION,
+      metadata: { timestamp: 'yesterday' },
+      elements: [{ ...login, attributes: { disabled: true } }, { tagName: 'a', attributes: {} }]
+    });
+
+    expect(errors).toEqual([
+      'metadata.timestamp must match format "date-time"',
+      'elements[0] (auth_login_button).attributes.disabled must be string',
+      'elements[1] must have required property \'xpath\''
+    ]);
+  });
+
+  test('requires the attributes of collection template elements', () => {
+    const errors = validateMapping({
+      schemaVersion: MAPPING_SCHEMA_VERSION,
+      metadata: {},
+      elements: [],
+      collections: [{
+        semanticKey: 'todo_items',
+        containerSelector: 'ul.todos',
+        itemSelector: ':scope > li',
+        itemTag: 'li',
+        itemCount: 3,
+        template: [{ tagName: 'button', semanticKey: 'todo_delete_button', selector: 'button.delete' }]
+      }]
+    });
+
+    expect(errors).toEqual(['collections[0] (todo_items).template[0] must have required property \'attributes\'']);
+  });
+
+  test('reports an unsupported schema version', () => {
+    expect(validateMapping({ schemaVersion: 2, metadata: {}, elements: [] })).toEqual(['schemaVersion must be equal to constant (1)']);
+  });
+});
@@ -0,0 +1,96 @@
+import { test, expect } from '@playwright/test';
+import { mergeMappingElements } from '../utils/mapping-merge';
+import { DOMElement } from '../utils/semantic-helper';
+import { buildElement } from './fixtures';
+
+const EARLIER = '2026-01-01T00:00:00.000Z';
+const NOW = '2026-02-01T00:00:00.000Z';
+
+function element(stableId: string, overrides: Partial<DOMElement> = {}): DOMElement {
+  return buildElement({
+    attributes: { id: stableId },
+    innerText: stableId,
+    xpath: `/html/body/button[@id="${stableId}"]`,
+    semanticKey: `button_${stableId}`,
+    stableId,
+    ...overrides
+  });
+}
+
+test.describe('mergeMappingElements', () => {
+  test('updates elements found again and adds new ones', () => {
+    const existing = [element('save', { lastSeen: EARLIER, lastUpdated: EARLIER })];
+    const fresh = [element('save'), element('cancel')];
+
+    const { elements, summary } = mergeMappingElements(existing, fresh, NOW, EARLIER);
+
+    expect(summary).toEqual({ matched: 1, added: 1, stale: 0, preserved: 0 });
+    expect(elements.map(e => e.stableId)).toEqual(['save', 'cancel']);
+    expect(elements[0]).toMatchObject({ lastSeen: NOW, lastUpdated: EARLIER });
+    expect(elements[1]).toMatchObject({ lastSeen: NOW, lastUpdated: NOW });
+  });
+
+  test('records the time of the extraction that changed an element', () => {
+    const existing = [element('save', { lastUpdated: EARLIER })];
+    const fresh = [element('save', { innerText: 'Save changes' })];
+
+    const { elements } = mergeMappingElements(existing, fresh, NOW, EARLIER);
+
+    expect(elements[0]).toMatchObject({ innerText: 'Save changes', lastUpdated: NOW });
+  });
+
+  test('keeps locked keys and their alternative names', () => {
+    const existing = [element('save', { semanticKey: 'profile_save_button', alternativeNames: ['save profile'], locked: true })];
+    const fresh = [element('save', { semanticKey: 'button_save', alternativeNames: ['save'] })];
+
+    const { elements, summary } = mergeMappingElements(existing, fresh, NOW, EARLIER);
+
+    expect(summary.preserved).toBe(1);
+    expect(elements[0]).toMatchObject({ semanticKey: 'profile_save_button', alternativeNames: ['save profile'], locked: true });
+  });
+
+  test('keeps alternative names added by hand after the generated ones', () => {
+    const existing = [element('save', { alternativeNames: ['save', 'store my settings'] })];
+    const fresh = [element('save', { alternativeNames: ['save', 'save button'] })];
+
+    const { elements } = mergeMappingElements(existing, fresh, NOW, EARLIER);
+
+    expect(elements[0].alternativeNames).toEqual(['save', 'save button', 'store my settings']);
+  });
+
+  test('marks vanished elements stale after the fresh ones', () => {
+    const existing = [element('save'), element('legacy', { innerText: 'Old export', attributes: { id: 'legacy-export' } })];
+    const fresh = [element('save')];
+
+    const { elements, summary } = mergeMappingElements(existing, fresh, NOW, EARLIER);
+
+    expect(summary.stale).toBe(1);
+    expect(elements.map(e => e.stableId)).toEqual(['save', 'legacy']);
+    expect(elements[1]).toMatchObject({ stale: true, lastSeen: EARLIER });
+  });
+
+  test('revives stale elements found again and counts elements already stale once', () => {
+    const existing = [
+      element('save', { stale: true, lastSeen: EARLIER }),
+      element('legacy', { innerText: 'Old export', attributes: { id: 'legacy-export' }, stale: true, lastSeen: EARLIER })
+    ];
+    const fresh = [element('save')];
+
+    const { elements, summary } = mergeMappingElements(existing, fresh, NOW, EARLIER);
+
+    expect(summary.stale).toBe(0);
+    expect(elements[0].stale).toBeUndefined();
+    expect(elements[0].lastSeen).toBe(NOW);
+    expect(elements[1]).toMatchObject({ stale: true, lastSeen: EARLIER });
+  });
+
+  test('matches elements whose stable ID changed by similarity', () => {
+    const existing = [element('save', { locked: true, semanticKey: 'profile_save_button' })];
+    const fresh = [element('save_2', { attributes: { id: 'save' }, innerText: 'save', xpath: '/html/body/button[@id="save"]' })];
+
+    const { elements, summary } = mergeMappingElements(existing, fresh, NOW, EARLIER);
+
+    expect(summary).toMatchObject({ matched: 1, added: 0, stale: 0 });
+    expect(elements[0]).toMatchObject({ stableId: 'save_2', semanticKey: 'profile_save_button', locked: true });
+  });
+});
@@ -0,0 +1,82 @@
+import { test, expect } from '@playwright/test';
+import { findRoute, getMappingBaseName, getPageKey, isSamePage, matchRoute } from '../utils/page-routes';
+
+test.describe('matchRoute', () => {
+  test('captures path parameters', () => {
+    expect(matchRoute('/orders/:id', 'http://localhost:3000/orders/123')).toEqual({ id: '123' });
+    expect(matchRoute('/users/:userId/settings', '/users/42/settings/')).toEqual({ userId: '42' });
+  });
+
+  test('matches the rest of the path with a wildcard', () => {
+    expect(matchRoute('/docs/*', 'http://localhost/docs/guides/install')).toEqual({});
+    expect(matchRoute('/docs/*', 'http://localhost/blog/post')).toBeNull();
+  });
+
+  test('requires one segment per parameter', () => {
+    expect(matchRoute('/orders/:id', 'http://localhost/orders')).toBeNull();
+    expect(matchRoute('/orders/:id', 'http://localhost/orders/1/items')).toBeNull();
+  });
+
+  test('checks query constraints and ignores other parameters', () => {
+    expect(matchRoute('/settings?tab=billing', 'http://localhost/settings?tab=billing&ref=menu')).toEqual({});
+    expect(matchRoute('/settings?tab=billing', 'http://localhost/settings?tab=profile')).toBeNull();
+    expect(matchRoute('/search?q=:query', 'http://localhost/search?q=shoes')).toEqual({ query: 'shoes' });
+    expect(matchRoute('/search?q=:query', 'http://localhost/search')).toBeNull();
+  });
+
+  test('prefers patterns with query constraints', () => {
+    const routes = ['/settings', '/settings?tab=billing'];
+    expect(findRoute('http://localhost/settings?tab=billing', routes)).toBe('/settings?tab=billing');
+    expect(findRoute('http://localhost/settings?tab=profile', routes)).toBe('/settings');
+  });
+});
+
+test.describe('isSamePage', () => {
+  const routing = {
+    routes: ['/orders/:id'],
+    hostAliases: { shop: ['localhost:3000', 'staging.shop.example.com'], admin: ['admin.example.com'] }
+  };
+
+  test('compares paths without a trailing slash', () => {
+    expect(isSamePage('http://localhost/checkout/', 'http://localhost/checkout')).toBe(true);
+    expect(isSamePage('http://localhost/checkout', 'http://localhost/cart')).toBe(false);
+  });
+
+  test('treats URLs of the same route as the same page', () => {
+    expect(isSamePage('http://localhost:3000/orders/1', 'http://localhost:3000/orders/2', routing)).toBe(true);
+    expect(isSamePage('http://localhost:3000/orders/1', '/orders/:id', routing, 'http://localhost:3000')).toBe(true);
+  });
+
+  test('matches hosts across the environments of an alias', () => {
+    expect(isSamePage('https://staging.shop.example.com/orders/1', 'http://localhost:3000/orders/9', routing)).toBe(true);
+    expect(isSamePage('https://admin.example.com/orders/1', 'http://localhost:3000/orders/9', routing)).toBe(false);
+  });
+});
+
+test.describe('getMappingBaseName', () => {
+  test('names files after the hostname and path', () => {
+    expect(getMappingBaseName('http://localhost:3000/checkout', 'Orders')).toBe('orders_localhost_checkout');
+  });
+
+  test('names files after the matching route and host alias', () => {
+    const routing = { routes: ['/orders/:id'], hostAliases: { shop: ['localhost:3000'] } };
+    expect(getMappingBaseName('http://localhost:3000/orders/123', 'Orders', routing)).toBe('orders_shop_orders__id');
+  });
+
+  test('appends query constraints of the route', () => {
+    const routing = { routes: ['/settings?tab=billing', '/search?q=:query'] };
+    expect(getMappingBaseName('http://localhost/settings?tab=billing', undefined, routing)).toBe('localhost_settings_tab_billing');
+    expect(getMappingBaseName('http://localhost/search?q=shoes', undefined, routing)).toBe('localhost_search_q__query');
+  });
+
+  test('leaves out the query of URLs matching no route', () => {
+    expect(getMappingBaseName('http://localhost/settings?tab=billing'))
+      .toBe(getMappingBaseName('http://localhost/settings?tab=profile'));
+  });
+
+  test('gives URLs of one route the same page key', () => {
+    const routing = { routes: ['/orders/:id'] };
+    expect(getPageKey('http://localhost/orders/1', routing)).toBe(getPageKey('http://localhost/orders/2', routing));
+    expect(getPageKey('http://localhost/orders/1', routing)).not.toBe(getPageKey('http://localhost/cart', routing));
+  });
+});
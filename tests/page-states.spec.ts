@@ -0,0 +1,118 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { writeMappingFile } from '../utils/mapping-file';
+import { excludeBaseElements, findPageStates, PageStates, runStateActions } from '../utils/page-states';
+import { buildElement } from './fixtures';
+
+/**
+ * Stand-in for a page that records the actions performed on it
+ */
+function fakePage(url: string) {
+  const actions: string[] = [];
+  const locator = (selector: string): any => ({
+    first: () => locator(selector),
+    click: async () => { actions.push(`click ${selector}`); },
+    hover: async () => { actions.push(`hover ${selector}`); },
+    fill: async (value: string) => { actions.push(`fill ${selector} ${value}`); },
+    waitFor: async (options: { state: string }) => { actions.push(`wait ${selector} ${options.state}`); }
+  });
+  return {
+    actions,
+    url: () => url,
+    locator,
+    waitForTimeout: async (timeout: number) => { actions.push(`wait ${timeout}ms`); }
+  };
+}
+
+test.describe('findPageStates', () => {
+  const states: PageStates = {
+    '/orders/:id': { 'cancel dialog': [{ click: 'cancel order button' }] },
+    'http://localhost/orders/1': { 'refund dialog': [{ click: { selector: '#refund' } }] },
+    '/cart': { 'empty cart': [{ click: 'remove item button' }] }
+  };
+
+  test('collects the states of every entry matching the page', () => {
+    const found = findPageStates(states, 'http://localhost/orders/1', { routes: ['/orders/:id'] });
+    expect(Object.keys(found)).toEqual(['cancel dialog', 'refund dialog']);
+  });
+
+  test('finds no states for other pages', () => {
+    expect(findPageStates(states, 'http://localhost/checkout')).toEqual({});
+  });
+});
+
+test.describe('excludeBaseElements', () => {
+  test('keeps only the elements a state added', () => {
+    const toggle = buildElement({ innerText: 'Cancel order', attributes: { 'aria-expanded': 'false' } });
+    const confirm = buildElement({ innerText: 'Confirm', state: 'cancel dialog' });
+    const expanded = { ...toggle, attributes: { 'aria-expanded': 'true' }, state: 'cancel dialog' };
+    const framed = { ...toggle, framePath: ['iframe#orders'], state: 'cancel dialog' };
+
+    expect(excludeBaseElements([expanded, confirm, framed], [toggle])).toEqual([confirm, framed]);
+  });
+});
+
+test.describe('runStateActions', () => {
+  let mappingPath: string;
+
+  test.beforeEach(() => {
+    mappingPath = fs.mkdtempSync(path.join(os.tmpdir(), 'page-states-'));
+    writeMappingFile(path.join(mappingPath, 'orders_localhost_orders_1.json'), [
+      buildElement({
+        semanticKey: 'orders_cancel_order_button',
+        featureName: 'orders',
+        url: 'http://localhost/orders/1',
+        innerText: 'Cancel order',
+        id: 'cancel-order',
+        attributes: { id: 'cancel-order' }
+      })
+    ], { url: 'http://localhost/orders/1', featureName: 'orders' });
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(mappingPath, { recursive: true, force: true });
+  });
+
+  test('performs the actions in order, resolving descriptions against the page mapping', async () => {
+    const page = fakePage('http://localhost/orders/1');
+
+    await runStateActions(page, [
+      { hover: { selector: '.order-menu' } },
+      { click: 'cancel order button' },
+      { fill: { selector: '#reason' }, value: 'Ordered twice' },
+      { wait: { selector: 'role=dialog' } },
+      { wait: 500 }
+    ], mappingPath);
+
+    expect(page.actions).toEqual([
+      'hover .order-menu',
+      'click #cancel-order',
+      'fill #reason Ordered twice',
+      'wait role=dialog visible',
+      'wait 500ms'
+    ]);
+  });
+
+  test('fills values from environment variables', async () => {
+    const page = fakePage('http://localhost/orders/1');
+    process.env.STATE_SPEC_REASON = 'Changed my mind';
+    try {
+      await runStateActions(page, [{ fill: { selector: '#reason' }, env: 'STATE_SPEC_REASON' }], mappingPath);
+    } finally {
+      delete process.env.STATE_SPEC_REASON;
+    }
+
+    expect(page.actions).toEqual(['fill #reason Changed my mind']);
+  });
+
+  test('stops at a fill without a value and at unknown actions', async () => {
+    const page = fakePage('http://localhost/orders/1');
+
+    await expect(runStateActions(page, [{ fill: { selector: '#reason' }, env: 'STATE_SPEC_MISSING' }], mappingPath))
+      .rejects.toThrow('No value to fill into #reason, set STATE_SPEC_MISSING');
+    await expect(runStateActions(page, [{ scroll: 'footer' } as any], mappingPath))
+      .rejects.toThrow('Unknown state action {"scroll":"footer"}');
+  });
+});
@@ -0,0 +1,71 @@
+import { test, expect } from '@playwright/test';
+import { ResolutionEvent } from '../utils/resolution-log';
+import {
+  generateMarkdownReport, markdownCell, markdownCode, summarizeDescriptions, summarizeHealedMappings
+} from '../utils/resolution-report';
+
+function event(overrides: Partial<ResolutionEvent> = {}): ResolutionEvent {
+  return {
+    timestamp: '2026-01-01T00:00:00.000Z',
+    description: 'save button',
+    semanticKey: 'button_save',
+    score: 80,
+    ...overrides
+  };
+}
+
+test.describe('markdownCell', () => {
+  test('escapes pipes and backslashes', () => {
+    expect(markdownCell('name | email')).toBe('name \\| email');
+    expect(markdownCell('C:\\temp')).toBe('C:\\\\temp');
+  });
+
+  test('joins lines so the row stays on one line', () => {
+    expect(markdownCell('first line\n  second line')).toBe('first line second line');
+  });
+});
+
+test.describe('markdownCode', () => {
+  test('keeps backslashes and escapes pipes', () => {
+    expect(markdownCode('[data-test="a\\b"]')).toBe('`[data-test="a\\b"]`');
+    expect(markdownCode('a:text-is("x|y")')).toBe('`a:text-is("x\\|y")`');
+  });
+
+  test('fences code containing backticks with two of them', () => {
+    expect(markdownCode('text=`Save`')).toBe('`` text=`Save` ``');
+  });
+});
+
+test.describe('summarizeDescriptions', () => {
+  test('groups descriptions case-insensitively and counts fallbacks', () => {
+    const summaries = summarizeDescriptions([
+      event({ testFile: 'a.spec.ts' }),
+      event({ description: 'Save Button', fallbackReason: 'healed', testFile: 'b.spec.ts', runnerUp: { score: 70 } }),
+      event({ description: 'cancel button', semanticKey: 'button_cancel' })
+    ]);
+
+    expect(summaries[0]).toMatchObject({
+      description: 'save button',
+      total: 2,
+      fallbacks: { healed: 1 },
+      testFiles: ['a.spec.ts', 'b.spec.ts'],
+      smallestMargin: 10
+    });
+    expect(summaries[1]).toMatchObject({ description: 'cancel button', total: 1, fallbacks: {} });
+  });
+});
+
+test.describe('generateMarkdownReport', () => {
+  test('keeps table rows intact for descriptions and selectors with pipes', () => {
+    const events = [
+      event({ description: 'name | email\nfield', fallbackReason: 'healed', selector: 'input[name="a|b"]', healedSelector: '#name', confidence: 0.9 })
+    ];
+
+    const report = generateMarkdownReport(events, summarizeDescriptions(events), summarizeHealedMappings(events));
+    const rows = report.split('\n').filter(line => line.startsWith('| ') && !line.startsWith('| Description') && !line.startsWith('| Semantic key'));
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toContain('| name \\| email field |');
+    expect(rows[1]).toContain('| `input[name="a\\|b"]` | `#name` | 1 | 0.90 |');
+  });
+});
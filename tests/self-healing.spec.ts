@@ -0,0 +1,125 @@
+import { test, expect } from '@playwright/test';
+import { healLocator } from '../utils/self-healing';
+import { buildElement } from './fixtures';
+
+/**
+ * Stand-in for a live DOM element, with what the fingerprint scorer reads
+ */
+class FakeNode {
+  tagName: string;
+  classList: string[];
+
+  constructor(tagName: string, private attributes: Record<string, string>, public textContent = '') {
+    this.tagName = tagName.toUpperCase();
+    this.classList = (attributes.class || '').split(/\s+/).filter(Boolean);
+  }
+
+  get id(): string {
+    return this.attributes.id || '';
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributes[name] ?? null;
+  }
+
+  // Supports compound selectors such as button#id.class[name="value"], throws for anything else
+  matches(selector: string): boolean {
+    const parts = selector.match(/^([a-z]+)?(?:#([\w-]+))?((?:\.[\w-]+)*)((?:\[[\w-]+=".*?"\])*)$/);
+    if (!parts || !selector) {
+      throw new Error(`Unsupported selector ${selector}`);
+    }
+    const [, tagName, id, classes, attributes] = parts;
+    return (!tagName || this.tagName === tagName.toUpperCase()) &&
+      (!id || this.id === id) &&
+      classes.split('.').filter(Boolean).every(cls => this.classList.includes(cls)) &&
+      Array.from(attributes.matchAll(/\[([\w-]+)="(.*?)"\]/g)).every(([, name, value]) => this.getAttribute(name) === value);
+  }
+}
+
+/**
+ * Stand-in for a page containing the given elements
+ */
+function fakePage(nodes: FakeNode[]) {
+  return {
+    locator: (selector: string) => {
+      const matches = () => nodes.filter(node => node.matches(selector));
+      return {
+        count: async () => matches().length,
+        first: () => ({
+          waitFor: async () => {
+            if (matches().length === 0) throw new Error(`Timeout waiting for ${selector}`);
+          }
+        }),
+        evaluateAll: async (fn: (elements: any[], arg: any) => any, arg: any) => fn(matches(), arg)
+      };
+    }
+  };
+}
+
+test.describe('healLocator', () => {
+  test('keeps a selector matching exactly one element', async () => {
+    const page = fakePage([new FakeNode('button', { id: 'save' }, 'Save')]);
+    const element = buildElement({ attributes: { id: 'save' }, innerText: 'Save' });
+
+    const result = await healLocator(page, element, '#save', { waitTimeout: 0 });
+
+    expect(result).toMatchObject({ healed: false, strategy: 'primary', selector: '#save', matchCount: 1 });
+  });
+
+  test('heals a renamed id through another stored selector', async () => {
+    const page = fakePage([
+      new FakeNode('button', { id: 'place-order-button', 'data-testid': 'place-order' }, 'Place order'),
+      new FakeNode('button', { id: 'cancel' }, 'Cancel')
+    ]);
+    const element = buildElement({
+      attributes: { id: 'place-order', 'data-testid': 'place-order' },
+      innerText: 'Place order',
+      selectorCandidates: [
+        { strategy: 'id', selector: '#place-order' },
+        { strategy: 'testid', selector: '[data-testid="place-order"]' }
+      ]
+    });
+
+    const result = await healLocator(page, element, '#place-order', { waitTimeout: 0 });
+
+    expect(result).toMatchObject({ healed: true, strategy: 'stored-selector', selector: '[data-testid="place-order"]' });
+    expect(result.confidence).toBeGreaterThanOrEqual(0.6);
+  });
+
+  test('heals a renamed class through the fingerprint', async () => {
+    const page = fakePage([
+      new FakeNode('button', { class: 'btn btn-main', name: 'checkout' }, 'Checkout'),
+      new FakeNode('button', { class: 'btn', name: 'continue' }, 'Continue shopping')
+    ]);
+    const element = buildElement({
+      classes: ['btn', 'btn-primary'],
+      attributes: { class: 'btn btn-primary', name: 'checkout' },
+      innerText: 'Checkout'
+    });
+
+    const result = await healLocator(page, element, 'button.btn-primary', { waitTimeout: 0 });
+
+    expect(result).toMatchObject({ healed: true, strategy: 'fingerprint', selector: 'button[name="checkout"]' });
+  });
+
+  test('heals a selector matching several elements', async () => {
+    const page = fakePage([
+      new FakeNode('button', { class: 'btn', name: 'save' }, 'Save'),
+      new FakeNode('button', { class: 'btn', name: 'discard' }, 'Discard')
+    ]);
+    const element = buildElement({ classes: ['btn'], attributes: { name: 'save' }, innerText: 'Save' });
+
+    const result = await healLocator(page, element, 'button.btn', { waitTimeout: 0 });
+
+    expect(result).toMatchObject({ healed: true, selector: 'button[name="save"]' });
+  });
+
+  test('reports a missing element nothing on the page resembles', async () => {
+    const page = fakePage([new FakeNode('button', { name: 'search' }, 'Search')]);
+    const element = buildElement({ attributes: { id: 'export' }, innerText: 'Export CSV' });
+
+    const result = await healLocator(page, element, '#export', { waitTimeout: 0 });
+
+    expect(result).toMatchObject({ healed: false, strategy: 'unresolved', selector: '#export', matchCount: 0 });
+  });
+});
@@ -0,0 +1,90 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DescriptionScorer } from '../utils/description-scorer';
+import { createEmbeddingProvider, loadVectorIndex, queryVectorIndex, updateVectorIndex, VectorIndex } from '../utils/vector-index';
+import { buildElement } from './fixtures';
+
+const search = buildElement({ stableId: 'search', semanticKey: 'header_search_button', innerText: 'Search' });
+const cart = buildElement({ stableId: 'cart', semanticKey: 'header_cart_link', innerText: 'Cart (2 items)' });
+const newsletter = buildElement({ stableId: 'newsletter', semanticKey: 'footer_newsletter_input', attributes: { placeholder: 'Your email' } });
+
+let mappingFile: string;
+
+test.beforeEach(() => {
+  mappingFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vector-index-')), 'shop_localhost_home.json');
+});
+
+test.afterEach(() => {
+  fs.rmSync(path.dirname(mappingFile), { recursive: true, force: true });
+});
+
+function hashProvider(scorer = new DescriptionScorer()) {
+  return createEmbeddingProvider({ dimensions: 256 }, text => scorer.tokenize(text));
+}
+
+test.describe('updateVectorIndex', () => {
+  test('only embeds elements that are new or whose text changed', async () => {
+    const provider = hashProvider();
+    const embeddedTexts: string[][] = [];
+    const countingProvider = {
+      ...provider,
+      embed: (texts: string[]) => {
+        embeddedTexts.push(texts);
+        return provider.embed(texts);
+      }
+    };
+
+    const first = await updateVectorIndex(mappingFile, [search, cart], countingProvider);
+    expect(first).toMatchObject({ embedded: 2, reused: 0 });
+
+    const relabelled = { ...cart, innerText: 'Basket (2 items)' };
+    const second = await updateVectorIndex(mappingFile, [search, relabelled, newsletter], countingProvider);
+    expect(second).toMatchObject({ embedded: 2, reused: 1 });
+    expect(embeddedTexts[1].map(text => text.split('\n')[0])).toEqual(['header cart link', 'footer newsletter input']);
+
+    const index = loadVectorIndex(mappingFile)!;
+    expect(second.indexPath).toBe(path.join(path.dirname(mappingFile), 'vectors', 'shop_localhost_home.json'));
+    expect(index.entries.map(entry => entry.key)).toEqual(['search', 'cart', 'newsletter']);
+  });
+
+  test('embeds everything again for another provider', async () => {
+    await updateVectorIndex(mappingFile, [search, cart], hashProvider());
+
+    const rebuilt = await updateVectorIndex(mappingFile, [search, cart], createEmbeddingProvider({ dimensions: 128 }, text => text.split(' ')));
+    expect(rebuilt).toMatchObject({ embedded: 2, reused: 0 });
+  });
+});
+
+test.describe('queryVectorIndex', () => {
+  test('ranks the element sharing words with the description first', async () => {
+    const provider = hashProvider();
+    await updateVectorIndex(mappingFile, [search, cart, newsletter], provider);
+
+    const similarities = await queryVectorIndex(loadVectorIndex(mappingFile)!, 'cart', provider);
+
+    const [best] = [...similarities.entries()].sort((a, b) => b[1] - a[1]);
+    expect(best[0]).toBe('cart');
+    expect(best[1]).toBeGreaterThan(0.25);
+  });
+
+  test('only matches other words for the same thing through configured synonyms', async () => {
+    const lexical = hashProvider();
+    await updateVectorIndex(mappingFile, [search, cart, newsletter], lexical);
+    const withoutSynonyms = await queryVectorIndex(loadVectorIndex(mappingFile)!, 'basket', lexical);
+    expect(withoutSynonyms.get('cart')).toBeLessThan(0.25);
+
+    const synonyms = hashProvider(new DescriptionScorer({ synonyms: [['cart', 'basket']] }));
+    await updateVectorIndex(mappingFile, [search, cart, newsletter], synonyms);
+    const withSynonyms = await queryVectorIndex(loadVectorIndex(mappingFile)!, 'basket', synonyms);
+    expect(withSynonyms.get('cart')).toBeGreaterThan(0.25);
+  });
+
+  test('ignores an index built by another provider', async () => {
+    await updateVectorIndex(mappingFile, [search, cart], hashProvider());
+    const index: VectorIndex = { ...loadVectorIndex(mappingFile)!, provider: 'local-model' };
+
+    expect((await queryVectorIndex(index, 'cart', hashProvider())).size).toBe(0);
+  });
+});
@@ -1,7 +1,7 @@
 import minimist from 'minimist';
 import * as fs from 'fs';
-import * as path from 'path';
 import { updateSelectorIndex } from './utils/semantic-helper';
+import { listMappingFiles, readMappingFile } from './utils/mapping-file';
 
 async function main() {
   const args = minimist(process.argv.slice(2));
@@ -24,14 +24,14 @@ async function main() {
     // Update index for all existing mapping files
     console.log('Updating semantic index for all mapping files...');
     
-    const files = fs.readdirSync(outputPath).filter(file => file.endsWith('.json'));
+    const files = listMappingFiles(outputPath);
     
     for (const file of files) {
       try {
-        const data = JSON.parse(fs.readFileSync(path.join(outputPath, file), 'utf-8'));
-        if (data && data.length > 0 && data[0].url) {
-          console.log(`Updating index for ${data[0].url}...`);
-          await updateSelectorIndex(data[0].url, outputPath);
+        const url = readMappingFile(file).metadata.url;
+        if (url) {
+          console.log(`Updating index for ${url}...`);
+          await updateSelectorIndex(url, outputPath);
         }
       } catch (error) {
         console.error(`Error processing file ${file}:`, error);
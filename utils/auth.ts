@@ -0,0 +1,123 @@
+import { Browser, BrowserContextOptions, chromium, Page } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Authenticated state for new browser contexts: a Playwright storage state file or object
+ */
+export type StorageState = BrowserContextOptions['storageState'];
+
+/**
+ * Scripted login, read from a JSON file passed with --login
+ * Credentials are never stored in the recipe, only the environment variables holding them
+ */
+export interface LoginRecipe {
+  // Login page
+  url: string;
+  fields: Array<{
+    // Label, placeholder or accessible name of the field, e.g. "Email"
+    description: string;
+    // Environment variable holding the value, e.g. "APP_PASSWORD"
+    env?: string;
+    // Literal value, for fields that aren't secret
+    value?: string;
+  }>;
+  // Accessible name of the submit button, e.g. "Sign in"; without one Enter is pressed in the last field
+  submit?: string;
+  // URL (or glob pattern) reached after logging in; by default any URL other than the login page
+  waitForUrl?: string;
+  timeout?: number;
+}
+
+const DEFAULT_LOGIN_TIMEOUT = 15000;
+
+/**
+ * Reads and checks a login recipe file
+ */
+export function loadLoginRecipe(recipePath: string): LoginRecipe {
+  const recipe = JSON.parse(fs.readFileSync(recipePath, 'utf-8')) as LoginRecipe;
+  if (!recipe.url || !Array.isArray(recipe.fields) || recipe.fields.length === 0) {
+    throw new Error(`Login recipe ${recipePath} needs a url and at least one field`);
+  }
+  return recipe;
+}
+
+/**
+ * Logs in with a recipe in a fresh context and returns the resulting storage state
+ *
+ * @param browser Browser to log in with
+ * @param recipe Login steps
+ * @param statePath File to save the storage state to, for reuse by later runs (optional)
+ */
+export async function performLogin(browser: Browser, recipe: LoginRecipe, statePath?: string): Promise<StorageState> {
+  const values = recipe.fields.map(field => {
+    const value = field.env ? process.env[field.env] : field.value;
+    if (value === undefined) {
+      throw new Error(`No value for login field '${field.description}'${field.env ? `, set ${field.env}` : ''}`);
+    }
+    return value;
+  });
+
+  const timeout = recipe.timeout || DEFAULT_LOGIN_TIMEOUT;
+  const context = await browser.newContext();
+  try {
+    const page = await context.newPage();
+    console.log(`Logging in at ${recipe.url}`);
+    await page.goto(recipe.url);
+    // The login page may redirect, e.g. to add a return URL
+    const loginUrl = page.url();
+
+    for (let i = 0; i < recipe.fields.length; i++) {
+      await locateField(page, recipe.fields[i].description).fill(values[i], { timeout });
+    }
+
+    if (recipe.submit) {
+      await page.getByRole('button', { name: recipe.submit })
+        .or(page.locator(`input[type="submit"][value=${JSON.stringify(recipe.submit)}]`))
+        .first()
+        .click({ timeout });
+    } else {
+      await locateField(page, recipe.fields[recipe.fields.length - 1].description).press('Enter');
+    }
+
+    try {
+      await page.waitForURL(recipe.waitForUrl || (url => url.toString() !== loginUrl), { timeout });
+    } catch (error) {
+      throw new Error(`Login did not reach ${recipe.waitForUrl || 'another page'} within ${timeout}ms, still on ${page.url()}`);
+    }
+    await page.waitForLoadState('networkidle', { timeout }).catch(() => console.warn('Network idle timeout after login'));
+
+    if (statePath) {
+      fs.mkdirSync(path.dirname(statePath), { recursive: true });
+    }
+    const state = await context.storageState(statePath ? { path: statePath } : {});
+    console.log(`Logged in${statePath ? `, storage state saved to ${statePath}` : ''}`);
+    return state;
+  } finally {
+    await context.close();
+  }
+}
+
+/**
+ * Runs a login recipe once in its own browser and saves the storage state, for sharing
+ * one login between several DOMMonitor instances
+ */
+export async function createStorageState(recipe: LoginRecipe, statePath: string): Promise<string> {
+  const browser = await chromium.launch();
+  try {
+    await performLogin(browser, recipe, statePath);
+    return statePath;
+  } finally {
+    await browser.close();
+  }
+}
+
+/**
+ * A form field by its label, placeholder or accessible name
+ */
+function locateField(page: Page, description: string) {
+  return page.getByLabel(description)
+    .or(page.getByPlaceholder(description))
+    .or(page.getByRole('textbox', { name: description }))
+    .first();
+}
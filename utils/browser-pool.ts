@@ -0,0 +1,151 @@
+import { Browser, chromium } from '@playwright/test';
+
+/**
+ * Browsers shared by the workers of a scan, launched on first use up to the pool size
+ * A browser is lent to one worker at a time, which opens its own contexts in it; a browser
+ * that crashed or was closed is replaced when it is next handed out.
+ *
+ * @param launchBrowser Starts a browser of the pool, Chromium by default
+ */
+export class BrowserPool {
+  private idle: Browser[] = [];
+  private launched = 0;
+  private waiting: Array<(browser: Browser) => void> = [];
+  private all: Browser[] = [];
+
+  constructor(private size: number, private launchBrowser: () => Promise<Browser> = () => chromium.launch()) {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`Browser pool size must be a positive integer, got ${size}`);
+    }
+  }
+
+  /**
+   * Takes a browser, waiting until one is released when all are in use
+   */
+  async acquire(): Promise<Browser> {
+    let browser = this.idle.pop();
+    if (!browser) {
+      if (this.launched < this.size) {
+        return this.launch();
+      }
+      browser = await new Promise<Browser>(resolve => this.waiting.push(resolve));
+    }
+    if (!browser.isConnected()) {
+      console.warn('Browser disconnected, launching a new one');
+      this.all = this.all.filter(other => other !== browser);
+      this.launched--;
+      return this.launch();
+    }
+    return browser;
+  }
+
+  /**
+   * Hands a browser back to the pool, or to the next worker waiting for one
+   */
+  release(browser: Browser): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next(browser);
+    } else {
+      this.idle.push(browser);
+    }
+  }
+
+  /**
+   * Runs a task with a browser of the pool, released when the task settles
+   */
+  async withBrowser<T>(task: (browser: Browser) => Promise<T>): Promise<T> {
+    const browser = await this.acquire();
+    try {
+      return await task(browser);
+    } finally {
+      this.release(browser);
+    }
+  }
+
+  /**
+   * Closes every browser the pool launched
+   */
+  async close(): Promise<void> {
+    const browsers = this.all;
+    this.all = [];
+    this.idle = [];
+    this.launched = 0;
+    await Promise.all(browsers.map(browser => browser.close().catch(() => undefined)));
+  }
+
+  private async launch(): Promise<Browser> {
+    this.launched++;
+    try {
+      const browser = await this.launchBrowser();
+      this.all.push(browser);
+      return browser;
+    } catch (error) {
+      this.launched--;
+      throw error;
+    }
+  }
+}
+
+/**
+ * Whether an error is likely to go away when the page is loaded again: navigation timeouts,
+ * network errors and browsers or pages closed underneath the task
+ */
+export function isTransientNavigationError(error: unknown): boolean {
+  const message = error instanceof Error ? `${error.name} ${error.message}` : String(error);
+  return /TimeoutError|Timeout \d+ms exceeded|net::ERR_|NS_ERROR_|ECONNRESET|ECONNREFUSED|Target (page, context or browser )?(has been )?closed|Browser has been closed|browser has disconnected/i.test(message);
+}
+
+/**
+ * Lets tasks running concurrently take one step in item order: turn() waits until every earlier
+ * task called done(), so files shared between tasks are written as in a sequential run
+ */
+export class TurnOrder {
+  private finished: boolean[];
+  private next = 0;
+  private waiting = new Map<number, () => void>();
+
+  constructor(count: number) {
+    this.finished = new Array(count).fill(false);
+  }
+
+  /**
+   * Waits until the tasks before this one are done
+   */
+  turn(index: number): Promise<void> {
+    if (index <= this.next) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiting.set(index, resolve));
+  }
+
+  /**
+   * Marks a task done, whether it succeeded or not, letting the next one take its turn
+   */
+  done(index: number): void {
+    this.finished[index] = true;
+    while (this.next < this.finished.length && this.finished[this.next]) {
+      this.next++;
+    }
+    const resolve = this.waiting.get(this.next);
+    if (resolve) {
+      this.waiting.delete(this.next);
+      resolve();
+    }
+  }
+}
+
+/**
+ * Runs a task over every item with at most `concurrency` running at once, in item order
+ * Tasks handle their own errors; the workers stop only when the items run out.
+ */
+export async function runWithConcurrency<T>(items: T[], concurrency: number, task: (item: T, index: number) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+}
@@ -0,0 +1,414 @@
+import { DOMElement } from './semantic-helper';
+
+/**
+ * Points awarded for each kind of match between a description and an element
+ */
+export interface ScoringWeights {
+  exactKey: number;
+  keyWord: number;
+  keySubstring: number;
+  exactAltName: number;
+  altNameWords: number;
+  featureBoost: number;
+  // Added for elements of the active UI state
+  stateBoost: number;
+  textWord: number;
+  tagName: number;
+  // Multiplied by the vector index similarity (0-1) when the index is enabled
+  vector: number;
+}
+
+/**
+ * Configuration of the description scorer, set in the "scoring" section of semantic.config.json
+ */
+export interface ScoringConfig {
+  weights: ScoringWeights;
+  // A runner-up scoring at least this fraction of the top score makes the match ambiguous
+  ambiguityRatio: number;
+  // Elements scoring below this are not considered matches
+  minScore: number;
+  // Words shorter than this are ignored
+  minWordLength: number;
+  stemming: boolean;
+  // Match misspelled words by Jaro-Winkler similarity ("serach" → "search")
+  fuzzy: boolean;
+  // Minimum similarity (0-1) for a misspelled word to count as a match
+  fuzzyThreshold: number;
+  // Words shorter than this must match exactly
+  fuzzyMinWordLength: number;
+  stopWords: string[];
+  // Groups of interchangeable phrases; every phrase is matched as the first one in its group
+  synonyms: string[][];
+}
+
+/**
+ * A description word that only matched an element word approximately
+ */
+export interface FuzzyMatch {
+  word: string;
+  matched: string;
+  similarity: number;
+}
+
+/**
+ * How an element's score was made up
+ */
+export interface ScoreBreakdown {
+  total: number;
+  key: number;
+  alternativeName: number;
+  feature: number;
+  state: number;
+  text: number;
+  tag: number;
+  vector: number;
+  matchedAltName?: string;
+  // How well the description words matched, from 0 (nothing) to 1 (every word matched exactly)
+  quality: number;
+  fuzzyMatches: FuzzyMatch[];
+}
+
+export interface ScoredElement {
+  element: DOMElement;
+  score: number;
+  quality: number;
+  breakdown: ScoreBreakdown;
+}
+
+export interface ScoringContext {
+  featureName?: string;
+  // Active UI state, whose elements get the state boost
+  state?: string;
+  // Vector index similarity of each element to the description
+  vectorSimilarity?: Map<DOMElement, number>;
+}
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  weights: {
+    exactKey: 100,
+    keyWord: 10,
+    keySubstring: 5,
+    exactAltName: 100,
+    altNameWords: 30,
+    featureBoost: 20,
+    stateBoost: 30,
+    textWord: 5,
+    tagName: 15,
+    vector: 40
+  },
+  ambiguityRatio: 0.8,
+  minScore: 1,
+  minWordLength: 3,
+  stemming: true,
+  fuzzy: true,
+  fuzzyThreshold: 0.88,
+  fuzzyMinWordLength: 4,
+  stopWords: ['the', 'a', 'an', 'to', 'of', 'on', 'in', 'at', 'for', 'with', 'and', 'or', 'this', 'that', 'my', 'your'],
+  synonyms: [
+    ['login', 'log in', 'sign in', 'signin', 'logon', 'log on'],
+    ['logout', 'log out', 'sign out', 'signout'],
+    ['signup', 'sign up', 'register', 'create account'],
+    ['email', 'e-mail', 'email address', 'e-mail address', 'mail address'],
+    ['username', 'user name', 'login name'],
+    ['password', 'passcode', 'passphrase'],
+    ['delete', 'remove', 'trash', 'destroy'],
+    ['search', 'find', 'lookup'],
+    ['dropdown', 'drop down', 'select box', 'combo box'],
+    ['textarea', 'text area']
+  ]
+};
+
+/**
+ * Scores mapped elements against natural language descriptions.
+ * Descriptions and element names are normalized the same way: lowercased, split into words,
+ * stop words removed, synonyms folded onto one phrase and words stemmed.
+ * Words that don't match exactly can still match a similarly spelled word, for a share of the points.
+ */
+export class DescriptionScorer {
+  private config: ScoringConfig;
+  private synonymPatterns: Array<{ pattern: RegExp, canonical: string }>;
+
+  constructor(config: Partial<ScoringConfig> = {}) {
+    this.config = {
+      ...DEFAULT_SCORING_CONFIG,
+      ...config,
+      weights: {
+        ...DEFAULT_SCORING_CONFIG.weights,
+        ...config.weights
+      }
+    };
+
+    // Longer phrases first, so "email address" wins over "email"
+    this.synonymPatterns = this.config.synonyms
+      .flatMap(group => group.map(phrase => ({ phrase: this.prepare(phrase), canonical: this.prepare(group[0]).replace(/\s+/g, '') })))
+      .filter(({ phrase }) => phrase.length > 0)
+      .sort((a, b) => b.phrase.length - a.phrase.length)
+      .map(({ phrase, canonical }) => ({
+        pattern: new RegExp(`(^|\\s)${phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?=\\s|$)`, 'g'),
+        canonical
+      }));
+  }
+
+  getConfig(): ScoringConfig {
+    return this.config;
+  }
+
+  /**
+   * Normalizes text into the words used for matching
+   */
+  tokenize(text: string): string[] {
+    let prepared = ` ${this.prepare(text)} `;
+    for (const { pattern, canonical } of this.synonymPatterns) {
+      prepared = prepared.replace(pattern, `$1${canonical}`);
+    }
+
+    return prepared
+      .split(/\s+/)
+      .filter(word => word.length > 0 && !this.config.stopWords.includes(word))
+      .map(word => this.config.stemming ? stem(word) : word);
+  }
+
+  /**
+   * Scores a single element against a description
+   */
+  scoreElement(description: string, element: DOMElement, context: ScoringContext = {}): ScoreBreakdown {
+    const weights = this.config.weights;
+    const descriptionWords = this.tokenize(description);
+    const significantWords = descriptionWords.filter(word => word.length >= this.config.minWordLength);
+    const descriptionPhrase = descriptionWords.join(' ');
+
+    const breakdown: ScoreBreakdown = {
+      total: 0, key: 0, alternativeName: 0, feature: 0, state: 0, text: 0, tag: 0, vector: 0, quality: 0, fuzzyMatches: []
+    };
+    const matches = new WordMatches(this.config);
+
+    if (element.semanticKey) {
+      // Match against the key without its feature prefix
+      const semanticKey = element.semanticKey.toLowerCase();
+      const keyWithoutPrefix = semanticKey.includes('_') ?
+        semanticKey.split('_').slice(1).join('_') :
+        semanticKey;
+      const keyWords = this.tokenize(keyWithoutPrefix);
+      const keyPhrase = keyWords.join(' ');
+
+      if (keyPhrase === descriptionPhrase) {
+        breakdown.key += weights.exactKey;
+      }
+
+      for (const word of significantWords) {
+        breakdown.key += Math.round(weights.keyWord * matches.add(word, keyWords));
+        if (keyPhrase.includes(word)) {
+          breakdown.key += weights.keySubstring;
+        }
+      }
+    }
+
+    for (const altName of element.alternativeNames || []) {
+      const altWords = this.tokenize(altName);
+      const altPhrase = altWords.join(' ');
+
+      if (altPhrase === descriptionPhrase) {
+        breakdown.alternativeName += weights.exactAltName;
+        breakdown.matchedAltName = altName;
+        break; // Found an exact match, no need to check other alt names
+      }
+
+      if (significantWords.length === 0) continue;
+      const wordMatches = significantWords
+        .reduce((sum, word) => sum + (altPhrase.includes(word) ? matches.exact(word) : matches.add(word, altWords)), 0);
+      const altScore = Math.round(weights.altNameWords * (wordMatches / significantWords.length));
+      if (altScore > 0) {
+        breakdown.alternativeName += altScore;
+        // Keep track of which alternative name matched best
+        if (!breakdown.matchedAltName || altScore > weights.altNameWords * 0.66) {
+          breakdown.matchedAltName = altName;
+        }
+      }
+    }
+
+    if (context.featureName && element.featureName === context.featureName) {
+      breakdown.feature += weights.featureBoost;
+    }
+
+    if (context.state && element.state === context.state) {
+      breakdown.state += weights.stateBoost;
+    }
+
+    if (element.innerText) {
+      const textWords = this.tokenize(element.innerText);
+      const textPhrase = textWords.join(' ');
+      for (const word of significantWords) {
+        const similarity = textPhrase.includes(word) ? matches.exact(word) : matches.add(word, textWords);
+        breakdown.text += Math.round(weights.textWord * similarity);
+      }
+    }
+
+    // Element type descriptions like "button" or "input"
+    const tagWords = this.tokenize(element.tagName);
+    const tagSimilarity = Math.max(0, ...descriptionWords.map(word => matches.add(word, tagWords)));
+    breakdown.tag += Math.round(weights.tagName * tagSimilarity);
+
+    const similarity = context.vectorSimilarity?.get(element);
+    if (similarity) {
+      breakdown.vector += Math.round(weights.vector * similarity);
+    }
+
+    breakdown.total = breakdown.key + breakdown.alternativeName + breakdown.feature + breakdown.state + breakdown.text + breakdown.tag + breakdown.vector;
+    breakdown.quality = matches.quality(significantWords.length > 0 ? significantWords : descriptionWords);
+    breakdown.fuzzyMatches = matches.fuzzyMatches();
+    return breakdown;
+  }
+
+  /**
+   * Scores every element and returns the matches, best first
+   */
+  rank(description: string, elements: DOMElement[], context: ScoringContext = {}): ScoredElement[] {
+    const scored: ScoredElement[] = [];
+    for (const element of elements) {
+      const breakdown = this.scoreElement(description, element, context);
+      if (breakdown.total >= this.config.minScore) {
+        scored.push({ element, score: breakdown.total, quality: breakdown.quality, breakdown });
+      }
+    }
+    return scored.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Whether the runner-up scores too close to the top match to tell them apart
+   */
+  isAmbiguous(topScore: number, runnerUpScore: number): boolean {
+    return runnerUpScore >= topScore * this.config.ambiguityRatio;
+  }
+
+  /**
+   * Lowercases and replaces separators (snake_case, kebab-case, punctuation) with spaces
+   */
+  private prepare(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/[_\-./]+/g, ' ')
+      .replace(/[^\w\s]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
+
+/**
+ * Tracks the best match found for each description word while an element is scored
+ */
+class WordMatches {
+  private best = new Map<string, FuzzyMatch>();
+
+  constructor(private config: ScoringConfig) {}
+
+  /**
+   * Records an exact match of a word
+   */
+  exact(word: string): number {
+    this.best.set(word, { word, matched: word, similarity: 1 });
+    return 1;
+  }
+
+  /**
+   * Returns how well a word matches the best of the given words: 1 for an exact match,
+   * the similarity for a close enough misspelling and 0 otherwise
+   */
+  add(word: string, candidates: string[]): number {
+    if (candidates.includes(word)) {
+      return this.exact(word);
+    }
+    if (!this.config.fuzzy || word.length < this.config.fuzzyMinWordLength) {
+      return 0;
+    }
+
+    let bestMatch: FuzzyMatch | null = null;
+    for (const candidate of candidates) {
+      if (candidate.length < this.config.fuzzyMinWordLength) continue;
+      const similarity = jaroWinkler(word, candidate);
+      if (similarity >= this.config.fuzzyThreshold && (!bestMatch || similarity > bestMatch.similarity)) {
+        bestMatch = { word, matched: candidate, similarity };
+      }
+    }
+    if (!bestMatch) {
+      return 0;
+    }
+
+    const previous = this.best.get(word);
+    if (!previous || bestMatch.similarity > previous.similarity) {
+      this.best.set(word, bestMatch);
+    }
+    return bestMatch.similarity;
+  }
+
+  /**
+   * Average similarity of the best match for each word, 0 for words that matched nothing
+   */
+  quality(words: string[]): number {
+    if (words.length === 0) return 0;
+    const total = words.reduce((sum, word) => sum + (this.best.get(word)?.similarity || 0), 0);
+    return Math.round((total / words.length) * 100) / 100;
+  }
+
+  fuzzyMatches(): FuzzyMatch[] {
+    return [...this.best.values()]
+      .filter(match => match.similarity < 1)
+      .map(match => ({ ...match, similarity: Math.round(match.similarity * 100) / 100 }));
+  }
+}
+
+/**
+ * Jaro-Winkler similarity between two words, from 0 (nothing in common) to 1 (identical)
+ */
+function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+
+  let matchCount = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - matchWindow);
+    const end = Math.min(i + matchWindow + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = true;
+      bMatched[j] = true;
+      matchCount++;
+      break;
+    }
+  }
+  if (matchCount === 0) return 0;
+
+  // Count matched characters that appear in a different order
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matchCount / a.length + matchCount / b.length + (matchCount - transpositions / 2) / matchCount) / 3;
+
+  // Boost words sharing a prefix of up to four characters
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Light suffix-stripping stemmer, enough to match "buttons"/"button" or "entries"/"entry"
+ */
+function stem(word: string): string {
+  if (word.length <= 3) return word;
+  if (word.endsWith('ies') && word.length > 4) return word.slice(0, -3) + 'y';
+  if (word.endsWith('ing') && word.length > 5) return word.slice(0, -3);
+  if (word.endsWith('ed') && word.length > 4) return word.slice(0, -2);
+  if (word.endsWith('es') && /(ss|x|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us')) return word.slice(0, -1);
+  return word;
+}
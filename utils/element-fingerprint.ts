@@ -0,0 +1,277 @@
+import * as crypto from 'crypto';
+import { DOMElement } from './semantic-helper';
+
+/**
+ * Where an element sits on the page, captured at extraction time
+ */
+export interface ElementNeighbors {
+  // Nearest enclosing landmark or form, e.g. "form#login" or "nav[aria-label=Main]"
+  landmark?: string;
+  // Text of the closest heading before the element
+  heading?: string;
+  // Text of the previous and next sibling elements
+  previous?: string;
+  next?: string;
+  // Position among elements with the same tag inside the landmark
+  index?: number;
+  // 1-based position of the enclosing list item or table row
+  listItem?: number;
+}
+
+/**
+ * Features used to recognize an element across extraction runs
+ */
+export interface ElementFingerprint {
+  tagName: string;
+  role?: string;
+  // Only attributes that identify the element, never classes or styles
+  attributes: Record<string, string>;
+  text: string;
+  position: {
+    depth: number;
+    index?: number;
+  };
+  neighbors: Omit<ElementNeighbors, 'index' | 'listItem'>;
+}
+
+export interface ReassociationSummary {
+  // Elements that kept the stable ID of the previous run
+  matched: number;
+  // Matched elements whose freshly generated ID differed, i.e. references that would otherwise have broken
+  recovered: number;
+  // Elements with no counterpart in the previous run
+  added: number;
+}
+
+export const FINGERPRINT_WEIGHTS = {
+  attributes: 0.4,
+  text: 0.25,
+  neighbors: 0.2,
+  position: 0.15
+};
+
+// Minimum confidence for an element to take over the stable ID of the previous run
+export const DEFAULT_MIN_CONFIDENCE = 0.6;
+
+const IDENTIFYING_ATTRIBUTES = [
+  'data-testid', 'data-test', 'data-qa', 'data-cy', 'id', 'name', 'for', 'type', 'role',
+  'aria-label', 'placeholder', 'title', 'href', 'value'
+];
+
+// Attributes specific enough to name an element on their own, most stable first
+const ANCHOR_ATTRIBUTES = ['data-testid', 'data-test', 'data-qa', 'data-cy', 'id', 'name', 'aria-label', 'placeholder', 'for'];
+
+/**
+ * Builds the fingerprint of a mapped element
+ */
+export function createElementFingerprint(element: DOMElement): ElementFingerprint {
+  const attributes: Record<string, string> = {};
+  for (const name of IDENTIFYING_ATTRIBUTES) {
+    const value = name === 'id' ? element.id || element.attributes?.id : element.attributes?.[name];
+    if (value) {
+      attributes[name] = value;
+    }
+  }
+
+  const steps = (element.xpath || '').split('/').filter(Boolean);
+  const { index, listItem, ...neighbors } = element.neighbors || {};
+
+  return {
+    tagName: element.tagName.toLowerCase(),
+    role: element.accessibility?.role || element.attributes?.role,
+    attributes,
+    text: normalizeText(element.accessibility?.name || element.innerText),
+    position: { depth: steps.length, index },
+    neighbors
+  };
+}
+
+/**
+ * Confidence, from 0 to 1, that two fingerprints belong to the same element
+ * Features missing on both sides are left out and the remaining weights rescaled,
+ * so an element without identifying attributes is judged on its text, neighbors and position
+ */
+export function fingerprintSimilarity(a: ElementFingerprint, b: ElementFingerprint): number {
+  if (a.tagName !== b.tagName || (a.role && b.role && a.role !== b.role)) {
+    return 0;
+  }
+
+  const scores: Array<[number, number | null]> = [
+    [FINGERPRINT_WEIGHTS.attributes, attributeScore(a.attributes, b.attributes)],
+    [FINGERPRINT_WEIGHTS.text, textScore(a.text, b.text)],
+    [FINGERPRINT_WEIGHTS.neighbors, neighborScore(a.neighbors, b.neighbors)],
+    [FINGERPRINT_WEIGHTS.position, positionScore(a.position, b.position)]
+  ];
+
+  let total = 0;
+  let weight = 0;
+  for (const [featureWeight, score] of scores) {
+    if (score === null) continue;
+    total += featureWeight * score;
+    weight += featureWeight;
+  }
+  return weight === 0 ? 0 : total / weight;
+}
+
+/**
+ * Stable ID of a fingerprint, like "e1a2b3c4d"
+ * Hashes the tag, role and either the strongest identifying attribute or, without one,
+ * the landmark, heading and position the element has inside its landmark.
+ * Text and DOM depth are left out, so copy edits and wrapper elements keep the ID.
+ *
+ * @param disambiguate Also hash the position, for elements sharing an anchor attribute such as radio buttons
+ */
+export function generateStableId(fingerprint: ElementFingerprint, disambiguate: boolean = false): string {
+  const anchor = ANCHOR_ATTRIBUTES.find(name => fingerprint.attributes[name]);
+  const stableProps = {
+    tagName: fingerprint.tagName,
+    role: fingerprint.role,
+    anchor: anchor ? `${anchor}=${fingerprint.attributes[anchor]}` : undefined,
+    landmark: anchor ? undefined : fingerprint.neighbors.landmark,
+    heading: anchor ? undefined : fingerprint.neighbors.heading,
+    index: anchor && !disambiguate ? undefined : fingerprint.position.index
+  };
+
+  const hash = crypto.createHash('md5').update(JSON.stringify(stableProps)).digest('hex').substring(0, 8);
+  return `e${hash}`;
+}
+
+/**
+ * Gives every element a stable ID that is unique within the page
+ */
+export function assignStableIds<T extends DOMElement>(elements: T[]): T[] {
+  const fingerprints = elements.map(createElementFingerprint);
+  const ids = fingerprints.map(fingerprint => generateStableId(fingerprint));
+
+  const counts = new Map<string, number>();
+  ids.forEach(id => counts.set(id, (counts.get(id) || 0) + 1));
+
+  const used = new Set<string>();
+  return elements.map((element, i) => {
+    let stableId = counts.get(ids[i])! > 1 ? generateStableId(fingerprints[i], true) : ids[i];
+    // Identical elements in the same spot of the page (e.g. repeated templates) are numbered
+    for (let n = 2; used.has(stableId); n++) {
+      stableId = `${ids[i]}_${n}`;
+    }
+    used.add(stableId);
+    return { ...element, stableId };
+  });
+}
+
+/**
+ * Carries the stable IDs of a previous extraction over to the elements of a new one
+ * Elements are paired greedily by fingerprint similarity; a pair at or above minConfidence
+ * takes the previous ID and records the similarity as stableIdConfidence.
+ * Unpaired elements keep their generated ID, renumbered if it was taken over by another element.
+ *
+ * @param previous Elements of the previous run, with their stable IDs
+ * @param current Elements of the new run, with freshly generated stable IDs
+ */
+export function reassociateStableIds<T extends DOMElement>(
+  previous: DOMElement[],
+  current: T[],
+  minConfidence: number = DEFAULT_MIN_CONFIDENCE
+): { elements: T[], summary: ReassociationSummary } {
+  const previousFingerprints = previous.map(createElementFingerprint);
+  const currentFingerprints = current.map(createElementFingerprint);
+
+  const candidates: Array<{ before: number, after: number, similarity: number, rank: number }> = [];
+  previous.forEach((before, i) => {
+    if (!before.stableId) return;
+    current.forEach((after, j) => {
+      const similarity = fingerprintSimilarity(previousFingerprints[i], currentFingerprints[j]);
+      if (similarity >= minConfidence) {
+        // An unchanged ID settles ties between equally similar elements
+        candidates.push({ before: i, after: j, similarity, rank: similarity + (before.stableId === after.stableId ? 0.01 : 0) });
+      }
+    });
+  });
+  candidates.sort((x, y) => y.rank - x.rank);
+
+  const adopted = new Map<number, { stableId: string, confidence: number }>();
+  const usedBefore = new Set<number>();
+  for (const candidate of candidates) {
+    if (usedBefore.has(candidate.before) || adopted.has(candidate.after)) continue;
+    adopted.set(candidate.after, {
+      stableId: previous[candidate.before].stableId!,
+      confidence: Math.round(candidate.similarity * 100) / 100
+    });
+    usedBefore.add(candidate.before);
+  }
+
+  const summary: ReassociationSummary = { matched: adopted.size, recovered: 0, added: 0 };
+  const taken = new Set([...adopted.values()].map(match => match.stableId));
+  const elements = current.map((element, j) => {
+    const match = adopted.get(j);
+    if (match) {
+      if (match.stableId !== element.stableId) {
+        summary.recovered++;
+      }
+      return { ...element, stableId: match.stableId, stableIdConfidence: match.confidence };
+    }
+
+    summary.added++;
+    const { stableIdConfidence, ...rest } = element;
+    const generated = element.stableId || generateStableId(currentFingerprints[j]);
+    let stableId = generated;
+    for (let n = 2; taken.has(stableId); n++) {
+      stableId = `${generated}_${n}`;
+    }
+    taken.add(stableId);
+    return { ...rest, stableId } as T;
+  });
+
+  return { elements, summary };
+}
+
+function attributeScore(a: Record<string, string>, b: Record<string, string>): number | null {
+  const names = new Set([...Object.keys(a), ...Object.keys(b)]);
+  if (names.size === 0) return null;
+
+  // Test IDs and ids are decisive when both sides have them
+  for (const name of ['data-testid', 'id']) {
+    if (a[name] && b[name]) {
+      return a[name] === b[name] ? 1 : 0;
+    }
+  }
+
+  let same = 0;
+  names.forEach(name => {
+    if (a[name] === b[name]) same++;
+  });
+  return same / names.size;
+}
+
+function textScore(a: string, b: string): number | null {
+  if (!a && !b) return null;
+  if (a === b) return 1;
+  return jaccard(a.split(' '), b.split(' '));
+}
+
+function neighborScore(a: ElementFingerprint['neighbors'], b: ElementFingerprint['neighbors']): number | null {
+  const features = (['landmark', 'heading', 'previous', 'next'] as const).filter(name => a[name] || b[name]);
+  if (features.length === 0) return null;
+  const same = features.filter(name => normalizeText(a[name]) === normalizeText(b[name])).length;
+  return same / features.length;
+}
+
+function positionScore(a: ElementFingerprint['position'], b: ElementFingerprint['position']): number {
+  // Wrapper elements shift the depth a little, so it only counts for part of the score
+  const depth = Math.max(0, 1 - Math.abs(a.depth - b.depth) * 0.25);
+  if (a.index === undefined || b.index === undefined) {
+    return depth;
+  }
+  return (a.index === b.index ? 1 : 0) * 0.6 + depth * 0.4;
+}
+
+function normalizeText(text?: string): string {
+  return (text || '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function jaccard(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  if (setA.size === 0 && setB.size === 0) return 1;
+  const intersection = [...setA].filter(value => setB.has(value)).length;
+  return intersection / (setA.size + setB.size - intersection);
+}
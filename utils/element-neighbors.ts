@@ -0,0 +1,59 @@
+import { ElementNeighbors } from './element-fingerprint';
+
+/**
+ * Name of the page global holding the neighbors helper installed by installNeighborsHelper
+ */
+export const NEIGHBORS_HELPER = '__semanticElementNeighbors';
+
+/**
+ * Installs the function capturing the surroundings of an element as a page global, so every
+ * extraction (DOMMonitor and the MCP service) fingerprints elements the same way.
+ * Runs in the page through page.evaluate, so it must not use anything declared outside of it.
+ *
+ * @param name Name of the global, NEIGHBORS_HELPER
+ */
+export function installNeighborsHelper(name: string): void {
+  const LANDMARK_SELECTOR = 'form, nav, main, header, footer, aside, dialog, section[aria-label], [role=form], [role=navigation], [role=main], [role=dialog], [role=region]';
+  const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6, [role=heading]';
+  const shortText = (el: Element | null): string | undefined => {
+    const text = (el?.textContent || '').replace(/\s+/g, ' ').trim();
+    return text ? text.substring(0, 50) : undefined;
+  };
+
+  const getNeighbors = (el: Element): ElementNeighbors => {
+    const landmark = el.parentElement?.closest(LANDMARK_SELECTOR) || null;
+    let landmarkName: string | undefined;
+    if (landmark) {
+      const label = landmark.id ? `#${landmark.id}` :
+        landmark.getAttribute('aria-label') ? `[aria-label=${landmark.getAttribute('aria-label')}]` :
+        landmark.getAttribute('name') ? `[name=${landmark.getAttribute('name')}]` : '';
+      landmarkName = `${landmark.tagName.toLowerCase()}${label}`;
+    }
+
+    // Closest heading before the element: earlier siblings of the element and of each ancestor
+    let heading: string | undefined;
+    for (let current: Element | null = el; current && !heading; current = current.parentElement) {
+      for (let sibling = current.previousElementSibling; sibling && !heading; sibling = sibling.previousElementSibling) {
+        const nested = sibling.matches(HEADING_SELECTOR) ? sibling :
+          Array.from(sibling.querySelectorAll(HEADING_SELECTOR)).pop() || null;
+        heading = shortText(nested);
+      }
+    }
+
+    const scope: ParentNode = landmark || (el.getRootNode() as Document | ShadowRoot);
+    const tagName = el.tagName.toLowerCase();
+    const item = el.closest('li, [role=listitem], tr, [role=row]');
+    const listItem = item && item.parentElement ?
+      Array.from(item.parentElement.children).filter(sibling => sibling.tagName === item.tagName).indexOf(item) + 1 : undefined;
+    return {
+      landmark: landmarkName,
+      heading,
+      previous: shortText(el.previousElementSibling),
+      next: shortText(el.nextElementSibling),
+      listItem,
+      index: Array.from(scope.querySelectorAll(tagName)).indexOf(el)
+    };
+  };
+
+  (window as any)[name] = getNeighbors;
+}
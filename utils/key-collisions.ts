@@ -0,0 +1,197 @@
+import { DOMElement } from './semantic-helper';
+import { createElementFingerprint, DEFAULT_MIN_CONFIDENCE, fingerprintSimilarity } from './element-fingerprint';
+
+/**
+ * Container context a colliding key can be qualified with
+ */
+export type CollisionContext = 'heading' | 'landmark' | 'listItem';
+
+/**
+ * A semantic key shared by elements that could not be told apart
+ */
+export interface KeyCollision {
+  semanticKey: string;
+  elements: Array<{
+    stableId?: string;
+    xpath: string;
+    // Mapping file of elements on other pages, absent for elements of the page itself
+    mappingFile?: string;
+  }>;
+  reason: string;
+}
+
+export interface CollisionResolution<T extends DOMElement = DOMElement> {
+  elements: T[];
+  // Elements given a qualified key
+  renamed: number;
+  unresolved: KeyCollision[];
+}
+
+// Qualifiers tried in order, the first one that tells every colliding element apart wins
+const CONTEXT_STRATEGIES: CollisionContext[][] = [
+  ['heading'],
+  ['landmark'],
+  ['listItem'],
+  ['heading', 'listItem'],
+  ['landmark', 'listItem'],
+  ['landmark', 'heading', 'listItem']
+];
+
+/**
+ * Makes the semantic keys of a page unique, within the page and against other mapping files
+ * Elements sharing a key are qualified with their container context, e.g. two "button_delete"
+ * keys become "button_delete_in_users" and "button_delete_in_groups", or "button_delete_item_1"
+ * and "button_delete_item_2" inside a list. Locked keys are never changed.
+ * A key used on another page only counts as a collision when the elements differ; a shared
+ * header or footer element keeps the same key on every page.
+ *
+ * @param elements Elements of the page
+ * @param otherMappings Elements of the other mapping files in the directory, by file path
+ * @param pageElements Elements of the same page that keep their keys, such as those of other UI states;
+ * unlike elements of other pages they always count as different elements
+ */
+export function resolveKeyCollisions<T extends DOMElement>(
+  elements: T[],
+  otherMappings: Record<string, DOMElement[]> = {},
+  pageElements: DOMElement[] = []
+): CollisionResolution<T> {
+  const result = elements.map(element => ({ ...element }));
+  const active = result.filter(element => element.semanticKey && !element.stale);
+  const unresolved: KeyCollision[] = [];
+  let renamed = 0;
+
+  // Keys in use elsewhere, to avoid qualifying into another collision
+  const otherKeys = new Map<string, Array<{ file: string, element: DOMElement }>>();
+  for (const [file, others] of Object.entries(otherMappings)) {
+    for (const element of others) {
+      if (!element.semanticKey || element.stale) continue;
+      otherKeys.set(element.semanticKey, [...(otherKeys.get(element.semanticKey) || []), { file, element }]);
+    }
+  }
+  const fixed = pageElements.filter(element => element.semanticKey && !element.stale);
+  const keyTaken = (key: string, except: DOMElement[]) =>
+    otherKeys.has(key) || fixed.some(element => element.semanticKey === key) ||
+    active.some(element => element.semanticKey === key && !except.includes(element));
+
+  // Within the page
+  const groups = new Map<string, T[]>();
+  for (const element of active) {
+    groups.set(element.semanticKey!, [...(groups.get(element.semanticKey!) || []), element]);
+  }
+  for (const [key, group] of groups) {
+    if (group.length < 2) continue;
+
+    const locked = group.filter(element => element.locked);
+    const renamable = group.filter(element => !element.locked);
+    if (locked.length > 1) {
+      unresolved.push(toCollision(key, locked, 'several locked elements share this key'));
+    }
+    if (renamable.length === 0) continue;
+
+    const qualified = qualifyKeys(key, renamable, candidate => keyTaken(candidate, renamable));
+    if (qualified) {
+      renamable.forEach((element, i) => element.semanticKey = qualified[i]);
+      renamed += renamable.length;
+    } else {
+      unresolved.push(toCollision(key, group, 'no heading, landmark or list item tells these elements apart'));
+    }
+  }
+
+  // Against the rest of the page and the other pages
+  for (const element of active) {
+    const pageMatches = fixed.filter(other => other.semanticKey === element.semanticKey);
+    const matches = (otherKeys.get(element.semanticKey!) || []).filter(other => !isSameElement(element, other.element));
+    if (pageMatches.length === 0 && matches.length === 0) continue;
+
+    const qualified = element.locked ? null : qualifyKeys(element.semanticKey!, [element], candidate => keyTaken(candidate, [element]));
+    if (qualified) {
+      element.semanticKey = qualified[0];
+      renamed++;
+    } else {
+      unresolved.push({
+        ...toCollision(element.semanticKey!, [element], element.locked ?
+          `locked key is also used by a different element ${pageMatches.length > 0 ? 'on the same page' : 'on another page'}` :
+          `key is also used by a different element ${pageMatches.length > 0 ? 'on the same page' : 'on another page'} and no container context is available`),
+        elements: [
+          { stableId: element.stableId, xpath: element.xpath },
+          ...pageMatches.map(other => ({ stableId: other.stableId, xpath: other.xpath })),
+          ...matches.map(other => ({ stableId: other.element.stableId, xpath: other.element.xpath, mappingFile: other.file }))
+        ]
+      });
+    }
+  }
+
+  return { elements: result, renamed, unresolved };
+}
+
+/**
+ * Qualified keys for a group of elements using the first context strategy that yields
+ * distinct, unused keys for all of them, or null if none does
+ */
+function qualifyKeys(key: string, elements: DOMElement[], isTaken: (key: string) => boolean): string[] | null {
+  for (const strategy of CONTEXT_STRATEGIES) {
+    const qualifiers = elements.map(element => getQualifier(element, strategy));
+    if (qualifiers.some(qualifier => !qualifier)) continue;
+
+    const keys = qualifiers.map(qualifier => `${key}_${qualifier}`);
+    if (new Set(keys).size === keys.length && !keys.some(isTaken)) {
+      return keys;
+    }
+  }
+  return null;
+}
+
+/**
+ * Key suffix describing where an element sits, e.g. "in_account_settings_item_2"
+ * Empty when the element lacks any of the requested context
+ */
+function getQualifier(element: DOMElement, strategy: CollisionContext[]): string {
+  const parts: string[] = [];
+  for (const context of strategy) {
+    const neighbors = element.neighbors || {};
+    let part = '';
+    if (context === 'heading') {
+      part = slug(neighbors.heading);
+    } else if (context === 'landmark') {
+      part = landmarkSlug(neighbors.landmark);
+    } else if (neighbors.listItem !== undefined) {
+      part = `item_${neighbors.listItem}`;
+    }
+    if (!part) return '';
+    parts.push(context === 'listItem' ? part : `in_${part}`);
+  }
+  return parts.join('_');
+}
+
+/**
+ * Turns a landmark description like "form#login" or "nav[aria-label=Main menu]" into "login_form" or "main_menu_nav"
+ */
+function landmarkSlug(landmark?: string): string {
+  const match = (landmark || '').match(/^([\w-]+)(?:#(.+)|\[[^=]+=(.+)\])?$/);
+  if (!match) return slug(landmark);
+  const name = slug(match[2] || match[3]);
+  return name ? `${name}_${match[1]}` : match[1];
+}
+
+function slug(text?: string): string {
+  return (text || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+    .slice(0, 4)
+    .join('_');
+}
+
+function isSameElement(a: DOMElement, b: DOMElement): boolean {
+  return fingerprintSimilarity(createElementFingerprint(a), createElementFingerprint(b)) >= DEFAULT_MIN_CONFIDENCE;
+}
+
+function toCollision(semanticKey: string, elements: DOMElement[], reason: string): KeyCollision {
+  return {
+    semanticKey,
+    elements: elements.map(element => ({ stableId: element.stableId, xpath: element.xpath })),
+    reason
+  };
+}
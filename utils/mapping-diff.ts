@@ -0,0 +1,180 @@
+import { DOMElement } from './semantic-helper';
+
+/**
+ * How a matched element differs between two extraction runs
+ */
+export type ElementChange = 'moved' | 'renamed' | 'text' | 'attributes';
+
+/**
+ * An element found in both runs
+ */
+export interface MatchedElement<T extends DOMElement = DOMElement> {
+  before: T;
+  after: T;
+  // Elements whose stable ID changed are paired by similarity instead
+  matchedBy: 'stableId' | 'similarity';
+  similarity: number;
+}
+
+export interface ChangedElement<T extends DOMElement = DOMElement> extends MatchedElement<T> {
+  changes: ElementChange[];
+}
+
+export interface MappingDiff<T extends DOMElement = DOMElement> {
+  added: T[];
+  removed: T[];
+  changed: ChangedElement<T>[];
+  unchanged: number;
+}
+
+// Attributes that identify an element rather than style it
+const IDENTIFYING_ATTRIBUTES = ['id', 'data-testid', 'name', 'type', 'role', 'href', 'placeholder', 'aria-label', 'title', 'for'];
+
+const DEFAULT_MIN_SIMILARITY = 0.6;
+
+/**
+ * Similarity of two mapped elements, from 0 (unrelated) to 1 (identical)
+ * Elements with different tag names never match
+ */
+export function elementSimilarity(a: DOMElement, b: DOMElement): number {
+  if (a.tagName !== b.tagName) {
+    return 0;
+  }
+
+  const attributePairs = (element: DOMElement) => IDENTIFYING_ATTRIBUTES
+    .filter(name => element.attributes?.[name])
+    .map(name => `${name}=${element.attributes[name]}`);
+  const aAttributes = attributePairs(a);
+  const bAttributes = attributePairs(b);
+  const attributeScore = aAttributes.length === 0 && bAttributes.length === 0 ? 1 : jaccard(aAttributes, bAttributes);
+
+  const aText = normalizeText(a.innerText);
+  const bText = normalizeText(b.innerText);
+  const textScore = aText === bText ? 1 : jaccard(aText.split(' '), bText.split(' '));
+
+  const nameScore = (a.accessibility?.name || '') === (b.accessibility?.name || '') ? 1 : 0;
+
+  const keyWords = (element: DOMElement) => (element.semanticKey || '').toLowerCase().split(/[_-]+/).filter(Boolean);
+  const keyScore = a.semanticKey === b.semanticKey ? 1 : jaccard(keyWords(a), keyWords(b));
+
+  const parent = (xpath: string) => xpath.replace(/\/[^/]+$/, '');
+  const positionScore = a.xpath === b.xpath ? 1 : parent(a.xpath) === parent(b.xpath) ? 0.5 : 0;
+
+  return attributeScore * 0.35 + textScore * 0.25 + keyScore * 0.15 + positionScore * 0.15 + nameScore * 0.1;
+}
+
+/**
+ * Pairs the elements of two runs: first by stable ID, then the remaining ones by similarity
+ *
+ * @param minSimilarity Pairs less similar than this are treated as a removal and an addition
+ */
+export function matchElements<T extends DOMElement>(
+  before: T[],
+  after: T[],
+  minSimilarity: number = DEFAULT_MIN_SIMILARITY
+): { matches: MatchedElement<T>[], unmatchedBefore: T[], unmatchedAfter: T[] } {
+  const matches: MatchedElement<T>[] = [];
+  const usedBefore = new Set<T>();
+  const usedAfter = new Set<T>();
+
+  const byStableId = new Map<string, T>();
+  for (const element of before) {
+    if (element.stableId && !byStableId.has(element.stableId)) {
+      byStableId.set(element.stableId, element);
+    }
+  }
+  for (const element of after) {
+    const previous = element.stableId ? byStableId.get(element.stableId) : undefined;
+    if (previous && !usedBefore.has(previous)) {
+      matches.push({ before: previous, after: element, matchedBy: 'stableId', similarity: 1 });
+      usedBefore.add(previous);
+      usedAfter.add(element);
+    }
+  }
+
+  // Greedily pair the most similar remaining elements
+  const candidates: Array<{ before: T, after: T, similarity: number }> = [];
+  for (const a of before.filter(element => !usedBefore.has(element))) {
+    for (const b of after.filter(element => !usedAfter.has(element))) {
+      const similarity = elementSimilarity(a, b);
+      if (similarity >= minSimilarity) {
+        candidates.push({ before: a, after: b, similarity });
+      }
+    }
+  }
+  candidates.sort((x, y) => y.similarity - x.similarity);
+  for (const candidate of candidates) {
+    if (usedBefore.has(candidate.before) || usedAfter.has(candidate.after)) continue;
+    matches.push({ ...candidate, matchedBy: 'similarity', similarity: Math.round(candidate.similarity * 100) / 100 });
+    usedBefore.add(candidate.before);
+    usedAfter.add(candidate.after);
+  }
+
+  return {
+    matches,
+    unmatchedBefore: before.filter(element => !usedBefore.has(element)),
+    unmatchedAfter: after.filter(element => !usedAfter.has(element))
+  };
+}
+
+/**
+ * Compares the elements of two extraction runs of the same page
+ */
+export function diffMappings<T extends DOMElement>(
+  before: T[],
+  after: T[],
+  minSimilarity: number = DEFAULT_MIN_SIMILARITY
+): MappingDiff<T> {
+  const { matches, unmatchedBefore, unmatchedAfter } = matchElements(before, after, minSimilarity);
+
+  const changed: ChangedElement<T>[] = [];
+  let unchanged = 0;
+  for (const match of matches) {
+    const changes = getElementChanges(match.before, match.after);
+    if (changes.length > 0) {
+      changed.push({ ...match, changes });
+    } else {
+      unchanged++;
+    }
+  }
+
+  return { added: unmatchedAfter, removed: unmatchedBefore, changed, unchanged };
+}
+
+/**
+ * How an element changed between two runs, empty if it didn't
+ */
+export function getElementChanges(before: DOMElement, after: DOMElement): ElementChange[] {
+  const changes: ElementChange[] = [];
+
+  const location = (element: DOMElement) =>
+    [...(element.framePath || []), ...(element.shadowHosts || []), element.xpath].join(' >> ');
+  if (location(before) !== location(after)) {
+    changes.push('moved');
+  }
+  if (before.semanticKey !== after.semanticKey) {
+    changes.push('renamed');
+  }
+  if (normalizeText(before.innerText) !== normalizeText(after.innerText)) {
+    changes.push('text');
+  }
+
+  const attributes = (element: DOMElement) => JSON.stringify(Object.entries(element.attributes || {}).sort());
+  if (attributes(before) !== attributes(after)) {
+    changes.push('attributes');
+  }
+
+  return changes;
+}
+
+function normalizeText(text?: string): string {
+  return (text || '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function jaccard(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  if (setA.size === 0 && setB.size === 0) return 1;
+  const intersection = [...setA].filter(value => setB.has(value)).length;
+  return intersection / (setA.size + setB.size - intersection);
+}
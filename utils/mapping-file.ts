@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as glob from 'glob';
+import Ajv, { ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import mappingSchema from '../schemas/mapping.schema.json';
+import { DOMElement, ElementCollection } from './semantic-helper';
+
+/**
+ * Version of schemas/mapping.schema.json written by writeMappingFile
+ */
+export const MAPPING_SCHEMA_VERSION = 1;
+
+/**
+ * Shapes a mapping file can be found in
+ * - array: bare array of elements (older generate-semantic-keys and enhance-semantic-keys output)
+ * - unversioned: { metadata, elements } without a schemaVersion (older DOMMonitor.saveReport output)
+ * - current: { schemaVersion, metadata, elements }
+ */
+export type MappingFormat = 'array' | 'unversioned' | 'current';
+
+export interface MappingMetadata {
+  url?: string;
+  // Route pattern the URL matched, when the page is parameterized
+  route?: string;
+  timestamp?: string;
+  featureName?: string;
+  elementCount?: number;
+  [key: string]: unknown;
+}
+
+export interface MappingFile<T = DOMElement> {
+  schemaVersion: number;
+  metadata: MappingMetadata;
+  elements: T[];
+  // Repeated structures mapped as item templates
+  collections?: ElementCollection[];
+}
+
+// Compiled on first use
+let validateAgainstSchema: ValidateFunction | null = null;
+
+/**
+ * Lists the mapping files in a directory
+ */
+export function listMappingFiles(mappingPath: string): string[] {
+  return glob.sync(path.join(mappingPath, '*.json')).sort();
+}
+
+/**
+ * Tells which shape parsed mapping data is in, or null if it is not a mapping at all
+ */
+export function detectMappingFormat(data: any): MappingFormat | null {
+  if (Array.isArray(data)) {
+    return 'array';
+  }
+  if (data && typeof data === 'object' && Array.isArray(data.elements)) {
+    return data.schemaVersion === undefined ? 'unversioned' : 'current';
+  }
+  return null;
+}
+
+/**
+ * Brings parsed mapping data of any known shape up to the current schema
+ * Metadata missing from older files is filled in from the elements
+ */
+export function upgradeMappingData<T = DOMElement>(data: any, source: string = 'mapping'): MappingFile<T> {
+  const format = detectMappingFormat(data);
+  if (!format) {
+    throw new Error(`Unrecognized mapping file format in ${source}`);
+  }
+  if (format === 'current' && data.schemaVersion > MAPPING_SCHEMA_VERSION) {
+    throw new Error(`${source} uses mapping schema version ${data.schemaVersion}, newer than the supported version ${MAPPING_SCHEMA_VERSION}`);
+  }
+
+  const elements: any[] = format === 'array' ? data : data.elements;
+  const metadata: MappingMetadata = format === 'array' ? {} : { ...data.metadata };
+  const first = elements.find(element => element && typeof element === 'object') || {};
+
+  return {
+    schemaVersion: MAPPING_SCHEMA_VERSION,
+    metadata: {
+      ...metadata,
+      url: metadata.url || first.url,
+      featureName: metadata.featureName || first.featureName,
+      elementCount: elements.length
+    },
+    elements,
+    ...(format !== 'array' && Array.isArray(data.collections) ? { collections: data.collections } : {})
+  };
+}
+
+/**
+ * Reads a mapping file in any known shape, upgraded to the current schema
+ * Throws when the file can't be read or isn't a mapping file
+ */
+export function readMappingFile<T = DOMElement>(filePath: string): MappingFile<T> {
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  return upgradeMappingData<T>(data, filePath);
+}
+
+/**
+ * Writes elements to a mapping file in the current schema
+ */
+export function writeMappingFile<T = DOMElement>(
+  filePath: string,
+  elements: T[],
+  metadata: MappingMetadata = {},
+  collections?: ElementCollection[]
+): MappingFile<T> {
+  const mapping: MappingFile<T> = {
+    schemaVersion: MAPPING_SCHEMA_VERSION,
+    metadata: {
+      ...metadata,
+      elementCount: elements.length
+    },
+    elements,
+    ...(collections && collections.length > 0 ? { collections } : {})
+  };
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(mapping, null, 2));
+  return mapping;
+}
+
+/**
+ * Checks mapping data against schemas/mapping.schema.json
+ * @returns One message per problem, empty when the data is valid
+ */
+export function validateMapping(data: any): string[] {
+  if (!validateAgainstSchema) {
+    const ajv = new Ajv({ allErrors: true });
+    addFormats(ajv);
+    validateAgainstSchema = ajv.compile(mappingSchema);
+  }
+  if (validateAgainstSchema(data)) {
+    return [];
+  }
+
+  return (validateAgainstSchema.errors || []).map(error => {
+    const allowed = error.keyword === 'const' ? error.params.allowedValue :
+      error.keyword === 'enum' ? error.params.allowedValues.join(', ') : undefined;
+    return `${describeLocation(data, error.instancePath)} ${error.message}${allowed !== undefined ? ` (${allowed})` : ''}`;
+  });
+}
+
+/**
+ * Readable location of a schema error, e.g. "elements[3] (login_button).attributes"
+ */
+function describeLocation(data: any, instancePath: string): string {
+  const segments = instancePath.split('/').slice(1).map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+  if (segments.length === 0) {
+    return 'mapping';
+  }
+
+  let location = '';
+  let value = data;
+  segments.forEach((segment, index) => {
+    value = value?.[segment];
+    location += /^\d+$/.test(segment) ? `[${segment}]` : `${location ? '.' : ''}${segment}`;
+    // Name the element or collection the problem is in
+    if (index === 1 && (segments[0] === 'elements' || segments[0] === 'collections') && typeof value?.semanticKey === 'string') {
+      location += ` (${value.semanticKey})`;
+    }
+  });
+  return location;
+}
@@ -0,0 +1,79 @@
+import { DOMElement } from './semantic-helper';
+import { getElementChanges, matchElements } from './mapping-diff';
+
+export interface MergeSummary {
+  matched: number;
+  added: number;
+  stale: number;
+  // Matched elements whose locked semantic key was kept over the newly generated one
+  preserved: number;
+}
+
+/**
+ * Merges a fresh extraction into the elements already stored for the page
+ * - elements found again take the fresh data, keeping locked keys and any alternative names added by hand
+ * - elements no longer on the page are kept and marked stale, with the date they were last seen
+ * - new elements are added
+ *
+ * @param existing Elements from the current mapping file
+ * @param fresh Elements from the new extraction
+ * @param timestamp Time of the new extraction
+ * @param existingTimestamp Time the current mapping file was written, used when an element has no lastSeen yet
+ */
+export function mergeMappingElements<T extends DOMElement>(
+  existing: T[],
+  fresh: T[],
+  timestamp: string,
+  existingTimestamp?: string
+): { elements: T[], summary: MergeSummary } {
+  const { matches, unmatchedBefore, unmatchedAfter } = matchElements(existing, fresh);
+  const summary: MergeSummary = { matched: matches.length, added: unmatchedAfter.length, stale: 0, preserved: 0 };
+
+  const merged = new Map<T, T>();
+  for (const { before, after } of matches) {
+    const element: T = {
+      ...after,
+      alternativeNames: mergeNames(after.alternativeNames, before.alternativeNames),
+      lastSeen: timestamp,
+      lastUpdated: before.lastUpdated || existingTimestamp || timestamp
+    };
+    delete element.stale;
+
+    if (before.locked) {
+      element.locked = true;
+      if (before.semanticKey !== after.semanticKey) {
+        summary.preserved++;
+      }
+      element.semanticKey = before.semanticKey;
+      element.alternativeNames = before.alternativeNames;
+    }
+
+    if (getElementChanges(before, element).length > 0) {
+      element.lastUpdated = timestamp;
+    }
+    merged.set(after, element);
+  }
+
+  const stale = unmatchedBefore.map(element => {
+    if (!element.stale) {
+      summary.stale++;
+    }
+    return {
+      ...element,
+      stale: true,
+      lastSeen: element.lastSeen || existingTimestamp
+    };
+  });
+
+  // Keep the page order of the fresh extraction, followed by the stale elements
+  const elements = fresh.map(element => merged.get(element) || { ...element, lastSeen: timestamp, lastUpdated: timestamp });
+  return { elements: [...elements, ...stale], summary };
+}
+
+/**
+ * Generated names first, followed by any earlier names that were not generated again
+ */
+function mergeNames(generated: string[] = [], previous: string[] = []): string[] | undefined {
+  const names = [...generated, ...previous.filter(name => !generated.includes(name))];
+  return names.length > 0 ? names : undefined;
+}
@@ -0,0 +1,207 @@
+/**
+ * Route patterns like "/orders/:id" or "/docs/*", listed under "routes" in semantic.config.json.
+ * Concrete URLs matching the same pattern are treated as the same page.
+ * A pattern may constrain query parameters, e.g. "/settings?tab=billing" or "/search?q=:query";
+ * parameters the pattern doesn't mention are ignored.
+ */
+
+/**
+ * How URLs map to pages, the "routes" and "hostAliases" sections of semantic.config.json
+ */
+export interface PageRouting {
+  // Route patterns such as "/orders/:id"; pages matching the same pattern share their mappings
+  routes?: string[];
+  // Hosts serving the same application, by alias, e.g. { "shop": ["localhost:3000", "staging.shop.com"] }
+  hostAliases?: Record<string, string[]>;
+}
+
+// Base for parsing relative URLs such as "/orders/123"
+const RELATIVE_BASE = 'http://relative.invalid';
+
+const routeCache: Record<string, { path: RegExp, query: Array<[string, string]> }> = {};
+
+/**
+ * Compiled form of a route pattern
+ * ":name" matches one path segment and "*" matches the rest of the path; a trailing slash is optional.
+ * Query constraints are kept as name/value pairs, a ":name" value accepting any value.
+ */
+export function compileRoute(pattern: string): { path: RegExp, query: Array<[string, string]> } {
+  if (!routeCache[pattern]) {
+    const [pathPattern, queryPattern = ''] = pattern.split('?');
+    const segments = normalizePathname(pathPattern).split('/').map(segment => {
+      if (segment === '*') return '.*';
+      if (segment.startsWith(':')) return `(?<${segment.substring(1).replace(/\W/g, '_')}>[^/]+)`;
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    });
+    routeCache[pattern] = {
+      path: new RegExp(`^${segments.join('/')}/?$`),
+      query: queryPattern.split('&').filter(Boolean).map(pair => {
+        const [name, value = ''] = pair.split('=');
+        return [name, value];
+      })
+    };
+  }
+  return routeCache[pattern];
+}
+
+/**
+ * Whether a string is a route pattern rather than a concrete URL
+ */
+export function isRoutePattern(value: string): boolean {
+  return /(^|[/=]):\w|\/\*/.test(value);
+}
+
+/**
+ * Parameters of a URL or pathname matching a route pattern, or null when it doesn't match
+ */
+export function matchRoute(pattern: string, url: string): Record<string, string> | null {
+  const route = compileRoute(pattern);
+  const match = route.path.exec(getPathname(url));
+  if (!match) {
+    return null;
+  }
+
+  const params: Record<string, string> = { ...match.groups };
+  const query = getSearchParams(url);
+  for (const [name, value] of route.query) {
+    const actual = query.get(name);
+    if (actual === null || (!value.startsWith(':') && value !== actual)) {
+      return null;
+    }
+    if (value.startsWith(':')) {
+      params[value.substring(1)] = actual;
+    }
+  }
+  return params;
+}
+
+/**
+ * First route pattern a URL matches
+ * Patterns with query constraints are tried first, so "/settings?tab=billing" wins over "/settings"
+ */
+export function findRoute(url: string, routes: string[] = []): string | undefined {
+  const ordered = [...routes].sort((a, b) => compileRoute(b).query.length - compileRoute(a).query.length);
+  return ordered.find(route => matchRoute(route, url) !== null);
+}
+
+/**
+ * Whether a page URL shows the page a mapping was extracted from: the same path,
+ * or paths matching the same route pattern. Hosts only count when both are listed
+ * under different aliases, so a mapping extracted on one environment applies to the others.
+ *
+ * @param mappingUrl URL or route pattern the mapping was extracted for
+ * @param mappingHost URL or host the mapping was extracted on, when mappingUrl is a route pattern
+ */
+export function isSamePage(pageUrl: string, mappingUrl: string, routing: PageRouting = {}, mappingHost: string = mappingUrl): boolean {
+  if (!isSameHost(pageUrl, mappingHost, routing)) {
+    return false;
+  }
+  if (isRoutePattern(mappingUrl)) {
+    return matchRoute(mappingUrl, pageUrl) !== null;
+  }
+  const route = findRoute(pageUrl, routing.routes);
+  if (route !== undefined) {
+    return matchRoute(route, mappingUrl) !== null;
+  }
+  return normalizePathname(getPathname(pageUrl)) === normalizePathname(getPathname(mappingUrl));
+}
+
+/**
+ * Alias of the host of a URL, or its hostname when no alias lists it
+ * Relative URLs have no host and give an empty string
+ */
+export function getHostAlias(url: string, routing: PageRouting = {}): string {
+  const hostname = parseUrl(url).hostname;
+  return findHostAlias(url, routing) || (hostname === parseUrl(RELATIVE_BASE).hostname ? '' : hostname);
+}
+
+/**
+ * Whether two URLs could be served by the same application: true unless their hosts
+ * are listed under different aliases
+ */
+export function isSameHost(a: string, b: string, routing: PageRouting = {}): boolean {
+  const aliasA = findHostAlias(a, routing);
+  const aliasB = findHostAlias(b, routing);
+  return !aliasA || !aliasB || aliasA === aliasB;
+}
+
+/**
+ * Identifies the page type of a URL: its host alias and either the route pattern it matches or its path
+ * URLs with the same page key are extracted into the same mapping file; the query string only
+ * counts through the constraints of a matching pattern.
+ */
+export function getPageKey(url: string, routing: PageRouting = {}): string {
+  return `${getHostAlias(url, routing)}${findRoute(url, routing.routes) || normalizePathname(getPathname(url))}`;
+}
+
+/**
+ * Mapping file name for a URL without extension, e.g. "orders_shop_orders__id" for
+ * "http://localhost:3000/orders/123" with the route "/orders/:id", "localhost:3000" listed
+ * under the host alias "shop" and the feature "Orders".
+ * Hosts without an alias are written as their hostname, route parameters with a double
+ * underscore, and query constraints are appended. The query of a URL matching no route is left
+ * out, so "/settings?tab=billing" and "/settings?tab=profile" share a file unless routes tell them apart.
+ */
+export function getMappingBaseName(url: string, featureName?: string, routing: PageRouting = {}): string {
+  const hostname = getHostAlias(url, routing).replace(/\./g, '_');
+  const route = findRoute(url, routing.routes);
+  const [routePath, routeQuery = ''] = (route || getPathname(url)).split('?');
+
+  const pathname = routePath
+    .replace(/:(\w+)/g, '_$1')
+    .replace(/\*/g, '_all')
+    .replace(/\//g, '_');
+  const query = routeQuery
+    .split('&')
+    .filter(Boolean)
+    .map(pair => `_${pair.replace(/=:/, '__').replace(/=/, '_')}`)
+    .join('');
+
+  const featurePrefix = featureName ? `${featureName.toLowerCase()}_` : '';
+  return `${featurePrefix}${hostname}${pathname}${query}`.replace(/[^a-zA-Z0-9_.-]/g, '');
+}
+
+/**
+ * Path of an absolute or relative URL
+ */
+export function getPathname(url: string): string {
+  try {
+    // Route patterns contain characters URL would encode, so only the path is taken from it
+    const parsed = new URL(url, RELATIVE_BASE);
+    return decodeURIComponent(parsed.pathname);
+  } catch (error) {
+    return url.split(/[?#]/)[0];
+  }
+}
+
+/**
+ * Alias listing the host of a URL; entries may be hosts with or without port, or base URLs
+ */
+function findHostAlias(url: string, routing: PageRouting): string | undefined {
+  const { host, hostname } = parseUrl(url);
+  return Object.keys(routing.hostAliases || {}).find(alias => routing.hostAliases![alias].some(entry => {
+    const aliasHost = entry.includes('://') ? parseUrl(entry).host : entry.toLowerCase();
+    return aliasHost === host || aliasHost === hostname;
+  }));
+}
+
+function parseUrl(url: string): { host: string, hostname: string } {
+  try {
+    const { host, hostname } = new URL(url, RELATIVE_BASE);
+    return { host, hostname };
+  } catch (error) {
+    return { host: '', hostname: '' };
+  }
+}
+
+function getSearchParams(url: string): URLSearchParams {
+  try {
+    return new URL(url, RELATIVE_BASE).searchParams;
+  } catch (error) {
+    return new URLSearchParams();
+  }
+}
+
+function normalizePathname(pathname: string): string {
+  return pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+}
@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import { DOMElement, clearMappingCache, locateResolution, resolveDescription } from './semantic-helper';
+import { isSamePage, PageRouting } from './page-routes';
+
+/**
+ * Element an action targets: a description resolved against the page mapping, like in tests,
+ * or a Playwright selector
+ */
+export type StateTarget = string | { selector: string };
+
+/**
+ * One step towards a UI state
+ */
+export type StateAction =
+  { click: StateTarget } |
+  { hover: StateTarget } |
+  // The value, or the environment variable holding it
+  { fill: StateTarget, value?: string, env?: string } |
+  // An element to become visible, or a number of milliseconds
+  { wait: StateTarget | number };
+
+/**
+ * States file: for each page URL or route pattern, the actions reaching each named state, e.g.
+ * { "/orders/:id": { "cancel dialog": [{ "click": "cancel order button" }, { "wait": { "selector": "role=dialog" } }] } }
+ */
+export type PageStates = Record<string, Record<string, StateAction[]>>;
+
+const DEFAULT_ACTION_TIMEOUT = 10000;
+
+/**
+ * Reads a states file
+ */
+export function loadPageStates(statesPath: string): PageStates {
+  return JSON.parse(fs.readFileSync(statesPath, 'utf-8'));
+}
+
+/**
+ * States defined for a page, from every entry whose URL or route pattern matches it
+ */
+export function findPageStates(states: PageStates, url: string, routing: PageRouting = {}): Record<string, StateAction[]> {
+  const found: Record<string, StateAction[]> = {};
+  for (const [page, pageStates] of Object.entries(states)) {
+    if (isSamePage(url, page, routing)) {
+      Object.assign(found, pageStates);
+    }
+  }
+  return found;
+}
+
+/**
+ * Performs the actions reaching a state on a page that was just opened
+ * Descriptions are resolved against the mappings in mappingPath, so they can name elements
+ * of the page's base state and of states saved before this one
+ */
+export async function runStateActions(page: any, actions: StateAction[], mappingPath: string): Promise<void> {
+  // Mappings were just written, so the cache may be out of date
+  clearMappingCache();
+
+  for (const action of actions) {
+    if ('click' in action) {
+      await (await locateTarget(page, action.click, mappingPath)).click({ timeout: DEFAULT_ACTION_TIMEOUT });
+    } else if ('hover' in action) {
+      await (await locateTarget(page, action.hover, mappingPath)).hover({ timeout: DEFAULT_ACTION_TIMEOUT });
+    } else if ('fill' in action) {
+      const value = action.env ? process.env[action.env] : action.value;
+      if (value === undefined) {
+        throw new Error(`No value to fill into ${describeTarget(action.fill)}${action.env ? `, set ${action.env}` : ''}`);
+      }
+      await (await locateTarget(page, action.fill, mappingPath)).fill(value, { timeout: DEFAULT_ACTION_TIMEOUT });
+    } else if ('wait' in action) {
+      if (typeof action.wait === 'number') {
+        await page.waitForTimeout(action.wait);
+      } else {
+        await (await locateTarget(page, action.wait, mappingPath)).waitFor({ state: 'visible', timeout: DEFAULT_ACTION_TIMEOUT });
+      }
+    } else {
+      throw new Error(`Unknown state action ${JSON.stringify(action)}`);
+    }
+  }
+}
+
+/**
+ * Elements of a state that aren't already part of the base state: same XPath, frame,
+ * shadow hosts and text as a base element. Elements whose attributes alone changed,
+ * like a toggle becoming aria-expanded, stay with the base state.
+ */
+export function excludeBaseElements<T extends DOMElement>(stateElements: T[], baseElements: DOMElement[]): T[] {
+  const base = new Set(baseElements.map(getElementLocation));
+  return stateElements.filter(element => !base.has(getElementLocation(element)));
+}
+
+/**
+ * Identifies an element within one extraction of a page by its frame, shadow hosts, tag, XPath and text
+ */
+export function getElementLocation(element: Pick<DOMElement, 'tagName' | 'xpath' | 'innerText' | 'framePath' | 'shadowHosts'>): string {
+  return [
+    ...(element.framePath || []), ...(element.shadowHosts || []), element.tagName.toLowerCase(), element.xpath, (element.innerText || '').trim()
+  ].join(' >> ');
+}
+
+/**
+ * Locates the target of an action; descriptions are resolved without healing and left out
+ * of the resolution log, which is about how tests resolve them
+ */
+async function locateTarget(page: any, target: StateTarget, mappingPath: string): Promise<any> {
+  if (typeof target !== 'string') {
+    return page.locator(target.selector).first();
+  }
+  const resolution = await resolveDescription(target, { mappingPath, pageUrl: page.url(), requireFeature: false, heal: false, log: false }, mappingPath);
+  return locateResolution(page, resolution);
+}
+
+function describeTarget(target: StateTarget): string {
+  return typeof target === 'string' ? `'${target}'` : target.selector;
+}
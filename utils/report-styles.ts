@@ -0,0 +1,27 @@
+/**
+ * Stylesheet shared by the HTML reports, so the mapping and diff reports look alike
+ */
+export const REPORT_STYLES = `
+  body { font-family: Arial, sans-serif; margin: 20px; }
+  h1 { color: #333; }
+  .element { border: 1px solid #ddd; padding: 10px; margin-bottom: 10px; border-radius: 5px; }
+  .tag { color: #0066cc; font-weight: bold; }
+  .id { color: #cc6600; }
+  .semantic { color: #009900; font-weight: bold; }
+  .feature { color: #990099; font-weight: bold; }
+  .metadata { background-color: #f0f8ff; padding: 10px; border-radius: 5px; margin-bottom: 20px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+  th { background-color: #f2f2f2; }
+  .search-box { margin: 10px 0; padding: 10px; }
+  .search-box input { padding: 8px; width: 300px; }
+  .filters { margin: 10px 0; }
+  .filters button { margin-right: 5px; padding: 5px 10px; cursor: pointer; }
+  .hidden { display: none; }
+  .alternatives { background-color: #f9f9f9; padding: 10px; border-radius: 5px; margin: 10px 0; }
+  .alternatives ul { margin: 0; padding-left: 20px; columns: 3; column-gap: 20px; }
+  .alternatives li { margin-bottom: 3px; }
+  @media (max-width: 768px) {
+    .alternatives ul { columns: 1; }
+  }
+`;
@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FuzzyMatch } from './description-scorer';
+
+/**
+ * Why a resolution did not go through the happy path
+ */
+export type FallbackReason = 'ambiguous' | 'xpath-fallback' | 'healed' | 'heal-failed' | 'not-found';
+
+/**
+ * A single description resolution, as written to the JSONL log
+ */
+export interface ResolutionEvent {
+  timestamp: string;
+  testFile?: string;
+  description: string;
+  featureName?: string;
+  semanticKey?: string;
+  score?: number;
+  matchQuality?: number;
+  fuzzyMatches?: FuzzyMatch[];
+  runnerUp?: {
+    semanticKey?: string;
+    score: number;
+  };
+  fallbackReason?: FallbackReason;
+  selector?: string;
+  healedSelector?: string;
+  confidence?: number;
+  error?: string;
+}
+
+export const DEFAULT_RESOLUTION_LOG_PATH = './test-results/semantic-resolution.jsonl';
+
+/**
+ * Path of the resolution log, or null when logging is off
+ * Logging is opt-in: set SEMANTIC_RESOLUTION_LOG to "on" for the default path or to a path of its own
+ */
+export function getResolutionLogPath(): string | null {
+  const configured = process.env.SEMANTIC_RESOLUTION_LOG;
+  if (!configured || configured === 'off' || configured === 'false' || configured === '0') {
+    return null;
+  }
+  if (configured === 'on' || configured === 'true' || configured === '1') {
+    return DEFAULT_RESOLUTION_LOG_PATH;
+  }
+  return configured;
+}
+
+/**
+ * Appends a resolution event to the JSONL log
+ * Logging must never break a test, so write errors are only reported
+ */
+export function recordResolutionEvent(event: Omit<ResolutionEvent, 'timestamp' | 'testFile'>): void {
+  const logPath = getResolutionLogPath();
+  if (!logPath) return;
+
+  const entry: ResolutionEvent = {
+    timestamp: new Date().toISOString(),
+    testFile: detectCallingTestFile(),
+    ...event
+  };
+
+  try {
+    fs.mkdirSync(path.dirname(logPath), { recursive: true });
+    fs.appendFileSync(logPath, JSON.stringify(entry) + '\n');
+  } catch (error) {
+    console.warn(`Could not write resolution log ${logPath}:`, error);
+  }
+}
+
+/**
+ * Reads all events from a resolution log, skipping malformed lines
+ */
+export function readResolutionLog(logPath: string): ResolutionEvent[] {
+  if (!fs.existsSync(logPath)) {
+    return [];
+  }
+
+  const events: ResolutionEvent[] = [];
+  for (const line of fs.readFileSync(logPath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      events.push(JSON.parse(line));
+    } catch (error) {
+      console.warn(`Skipping malformed resolution log line: ${line.substring(0, 80)}`);
+    }
+  }
+  return events;
+}
+
+/**
+ * Finds the spec file that triggered the resolution by walking the call stack
+ */
+function detectCallingTestFile(): string | undefined {
+  const stack = new Error().stack || '';
+  for (const line of stack.split('\n')) {
+    const match = line.match(/\(?([^\s(]+\.(?:spec|test)\.[jt]s):\d+/);
+    if (match && match[1]) {
+      return path.relative(process.cwd(), match[1]);
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,183 @@
+import { FallbackReason, ResolutionEvent } from './resolution-log';
+
+/**
+ * How one description resolved across the logged test runs
+ */
+export interface DescriptionSummary {
+  description: string;
+  testFiles: string[];
+  total: number;
+  fallbacks: Partial<Record<FallbackReason, number>>;
+  semanticKeys: string[];
+  averageScore: number;
+  averageQuality?: number;
+  smallestMargin?: number;
+}
+
+/**
+ * A stored selector that was healed to the same selector one or more times
+ */
+export interface HealedMappingSummary {
+  semanticKey: string;
+  selector: string;
+  healedSelector: string;
+  count: number;
+  averageConfidence: number;
+  lastSeen: string;
+}
+
+/**
+ * Groups resolution events by description and ranks them by how often they needed a fallback
+ */
+export function summarizeDescriptions(events: ResolutionEvent[]): DescriptionSummary[] {
+  const groups = new Map<string, ResolutionEvent[]>();
+  for (const event of events) {
+    const key = event.description.toLowerCase().trim();
+    groups.set(key, [...(groups.get(key) || []), event]);
+  }
+
+  const summaries: DescriptionSummary[] = [];
+  for (const [, group] of groups) {
+    const fallbacks: Partial<Record<FallbackReason, number>> = {};
+    for (const event of group) {
+      if (event.fallbackReason) {
+        fallbacks[event.fallbackReason] = (fallbacks[event.fallbackReason] || 0) + 1;
+      }
+    }
+
+    const scored = group.filter(event => typeof event.score === 'number');
+    const qualities = group
+      .map(event => event.matchQuality)
+      .filter(quality => typeof quality === 'number') as number[];
+    const margins = scored
+      .filter(event => event.runnerUp)
+      .map(event => event.score! - event.runnerUp!.score);
+
+    summaries.push({
+      description: group[0].description,
+      testFiles: [...new Set(group.map(event => event.testFile).filter(Boolean) as string[])],
+      total: group.length,
+      fallbacks,
+      semanticKeys: [...new Set(group.map(event => event.semanticKey).filter(Boolean) as string[])],
+      averageScore: scored.length > 0 ?
+        Math.round(scored.reduce((sum, event) => sum + event.score!, 0) / scored.length) : 0,
+      averageQuality: qualities.length > 0 ?
+        qualities.reduce((sum, quality) => sum + quality, 0) / qualities.length : undefined,
+      smallestMargin: margins.length > 0 ? Math.min(...margins) : undefined
+    });
+  }
+
+  return summaries.sort((a, b) => fallbackCount(b) / b.total - fallbackCount(a) / a.total || b.total - a.total);
+}
+
+/**
+ * Collects healed selectors so the mappings that produced them can be updated
+ */
+export function summarizeHealedMappings(events: ResolutionEvent[]): HealedMappingSummary[] {
+  const healed = new Map<string, HealedMappingSummary & { confidenceTotal: number }>();
+
+  for (const event of events) {
+    if (event.fallbackReason !== 'healed' || !event.healedSelector) continue;
+
+    const key = `${event.semanticKey}|${event.selector}|${event.healedSelector}`;
+    const summary = healed.get(key) || {
+      semanticKey: event.semanticKey || '(unknown)',
+      selector: event.selector || '',
+      healedSelector: event.healedSelector,
+      count: 0,
+      averageConfidence: 0,
+      confidenceTotal: 0,
+      lastSeen: event.timestamp
+    };
+    summary.count++;
+    summary.confidenceTotal += event.confidence || 0;
+    summary.averageConfidence = summary.confidenceTotal / summary.count;
+    if (event.timestamp > summary.lastSeen) {
+      summary.lastSeen = event.timestamp;
+    }
+    healed.set(key, summary);
+  }
+
+  return [...healed.values()]
+    .map(({ confidenceTotal, ...summary }) => summary)
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Number of resolutions of a description that needed a fallback
+ */
+export function fallbackCount(summary: DescriptionSummary): number {
+  return Object.values(summary.fallbacks).reduce((sum, count) => sum + (count || 0), 0);
+}
+
+/**
+ * Fallback reasons of a description with their counts, e.g. "healed (2), ambiguous (1)"
+ */
+export function formatFallbacks(summary: DescriptionSummary): string {
+  return Object.entries(summary.fallbacks)
+    .map(([reason, count]) => `${reason} (${count})`)
+    .join(', ');
+}
+
+/**
+ * Text safe inside a Markdown table cell: pipes would end the cell and line breaks the row
+ */
+export function markdownCell(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Code span for a Markdown table cell; backslashes are literal in code, only pipes are escaped
+ */
+export function markdownCode(value: string): string {
+  const code = value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+  return value.includes('`') ? `\`\` ${code} \`\`` : `\`${code}\``;
+}
+
+/**
+ * Average description match quality, or "-" when no resolution recorded one
+ */
+export function formatQuality(summary: DescriptionSummary): string {
+  return summary.averageQuality !== undefined ? summary.averageQuality.toFixed(2) : '-';
+}
+
+/**
+ * Generate a Markdown report of fragile descriptions and mappings needing updates
+ */
+export function generateMarkdownReport(events: ResolutionEvent[], descriptions: DescriptionSummary[], healed: HealedMappingSummary[]): string {
+  const fragile = descriptions.filter(summary => fallbackCount(summary) > 0);
+  const lines = [
+    '# Semantic Resolution Report',
+    '',
+    `- Resolutions: ${events.length}`,
+    `- Distinct descriptions: ${descriptions.length}`,
+    `- Fragile descriptions: ${fragile.length}`,
+    `- Healed mappings: ${healed.length}`,
+    '',
+    '## Fragile Descriptions',
+    ''
+  ];
+
+  if (fragile.length === 0) {
+    lines.push('No description needed a fallback.');
+  } else {
+    lines.push('| Description | Resolutions | Fallbacks | Semantic keys | Avg score | Avg match quality | Smallest margin | Test files |');
+    lines.push('|---|---|---|---|---|---|---|---|');
+    for (const summary of fragile) {
+      lines.push(`| ${markdownCell(summary.description)} | ${summary.total} | ${formatFallbacks(summary)} | ${markdownCell(summary.semanticKeys.join(', '))} | ${summary.averageScore} | ${formatQuality(summary)} | ${summary.smallestMargin ?? '-'} | ${markdownCell(summary.testFiles.join(', '))} |`);
+    }
+  }
+
+  lines.push('', '## Mappings To Update', '');
+  if (healed.length === 0) {
+    lines.push('No selectors were healed.');
+  } else {
+    lines.push('| Semantic key | Stored selector | Healed selector | Times healed | Avg confidence | Last seen |');
+    lines.push('|---|---|---|---|---|---|');
+    for (const summary of healed) {
+      lines.push(`| ${markdownCell(summary.semanticKey)} | ${markdownCode(summary.selector)} | ${markdownCode(summary.healedSelector)} | ${summary.count} | ${summary.averageConfidence.toFixed(2)} | ${summary.lastSeen} |`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,354 @@
+import { DOMElement } from './semantic-helper';
+import { readMappingFile, writeMappingFile } from './mapping-file';
+
+/**
+ * Options for healing a locator
+ */
+export interface HealingOptions {
+  // Minimum fingerprint similarity (0-1) required to accept a healed element
+  minConfidence?: number;
+  // How long to wait (ms) for the primary selector to attach before healing it (default: 2000)
+  waitTimeout?: number;
+  // Persist the healed selector into the mapping file the element came from
+  writeBack?: boolean;
+  mappingFile?: string;
+  // Locator to search inside instead of the element's page or frame, for scoped descriptions
+  root?: any;
+}
+
+/**
+ * Outcome of resolving a locator for a mapped element
+ */
+export interface HealingResult {
+  locator: any; // Playwright Locator
+  selector: string;
+  originalSelector: string;
+  healed: boolean;
+  strategy: 'primary' | 'stored-selector' | 'fingerprint' | 'unresolved';
+  confidence: number;
+  matchCount: number;
+}
+
+interface ElementFingerprint {
+  tagName: string;
+  attributes: Record<string, string>;
+  text: string;
+  role?: string;
+  name?: string;
+  classes: string[];
+}
+
+interface FingerprintScore {
+  score: number;
+  // Whether an attribute, the text or the name matched, not just the tag, role or classes
+  discriminating: boolean;
+  // Attribute selectors for the element, to be checked for uniqueness
+  selectors: string[];
+}
+
+// Attributes that describe what an element is rather than how it is styled
+const FINGERPRINT_ATTRIBUTES = [
+  'id', 'name', 'type', 'placeholder', 'aria-label', 'title', 'href', 'role', 'alt',
+  'data-testid', 'data-test', 'data-qa', 'data-cy'
+];
+
+/**
+ * Returns the page, or the frame locator the element lives in when it was extracted from an iframe
+ */
+export function getElementScope(page: any, element: DOMElement): any {
+  let scope = page;
+  for (const frameSelector of element.framePath || []) {
+    scope = scope.frameLocator(frameSelector);
+  }
+  return scope;
+}
+
+/**
+ * Resolves a locator for a mapped element, healing it when the primary selector
+ * matches zero or several elements on the live page.
+ *
+ * The primary selector is given waitTimeout to attach, so an element that is still
+ * rendering is not healed away. Healing first tries the element's other stored
+ * selectors, then re-scores live elements of the same tag against the stored
+ * attributes/text/role fingerprint; a healed selector always identifies the element
+ * by its own attributes, never by position.
+ */
+export async function healLocator(
+  page: any,
+  element: DOMElement,
+  primarySelector: string,
+  options: HealingOptions = {}
+): Promise<HealingResult> {
+  const minConfidence = options.minConfidence ?? 0.6;
+  const scope = options.root || getElementScope(page, element);
+  const fingerprint = createFingerprint(element);
+  const primaryLocator = scope.locator(primarySelector);
+
+  // Give the page a moment to render the element before deciding the selector is broken
+  await primaryLocator.first().waitFor({ state: 'attached', timeout: options.waitTimeout ?? 2000 }).catch(() => {});
+  const primaryCount = await countMatches(scope, primarySelector);
+
+  if (primaryCount === 1) {
+    return {
+      locator: primaryLocator,
+      selector: primarySelector,
+      originalSelector: primarySelector,
+      healed: false,
+      strategy: 'primary',
+      confidence: 1,
+      matchCount: 1
+    };
+  }
+
+  console.warn(`Selector '${primarySelector}' for '${element.semanticKey}' matched ${primaryCount} elements, attempting to heal`);
+
+  let healed: HealingResult | null = null;
+  // A fingerprint of only a tag, role and classes fits too many elements to heal with
+  const discriminating = Object.keys(fingerprint.attributes).length > 0 || !!fingerprint.text || !!fingerprint.name;
+
+  // 1. Fall back through the other stored selectors, best-ranked first
+  const storedSelectors = [
+    ...(element.selectorCandidates || []).map(candidate => candidate.selector),
+    ...(element.alternativeSelectors || [])
+  ].filter((selector, index, all) => selector !== primarySelector && all.indexOf(selector) === index);
+
+  for (const selector of discriminating ? storedSelectors : []) {
+    if (await countMatches(scope, selector) !== 1) continue;
+
+    const [match] = await scope.locator(selector).evaluateAll(scoreAgainstFingerprint, fingerprint) as FingerprintScore[];
+    const confidence = match ? match.score : 0;
+    if (match?.discriminating && confidence >= minConfidence) {
+      healed = {
+        locator: scope.locator(selector),
+        selector,
+        originalSelector: primarySelector,
+        healed: true,
+        strategy: 'stored-selector',
+        confidence,
+        matchCount: 1
+      };
+      break;
+    }
+  }
+
+  // 2. Re-score live elements of the same tag against the stored fingerprint
+  if (!healed && discriminating) {
+    const scores = await scope.locator(fingerprint.tagName)
+      .evaluateAll(scoreAgainstFingerprint, fingerprint)
+      .catch(() => []) as FingerprintScore[];
+
+    let best: FingerprintScore | undefined;
+    for (const candidate of scores) {
+      if (candidate.discriminating && (!best || candidate.score > best.score)) {
+        best = candidate;
+      }
+    }
+
+    let selector: string | undefined;
+    if (best && best.score >= minConfidence) {
+      for (const candidate of best.selectors) {
+        if (await countMatches(scope, candidate) === 1) {
+          selector = candidate;
+          break;
+        }
+      }
+    }
+
+    if (best && selector) {
+      healed = {
+        locator: scope.locator(selector),
+        selector,
+        originalSelector: primarySelector,
+        healed: true,
+        strategy: 'fingerprint',
+        confidence: best.score,
+        matchCount: 1
+      };
+    }
+  }
+
+  if (!healed) {
+    console.warn(`Could not heal selector for '${element.semanticKey}', keeping '${primarySelector}'`);
+    return {
+      locator: primaryLocator,
+      selector: primarySelector,
+      originalSelector: primarySelector,
+      healed: false,
+      strategy: 'unresolved',
+      confidence: 0,
+      matchCount: primaryCount
+    };
+  }
+
+  console.warn(`Healed '${element.semanticKey}': '${primarySelector}' -> '${healed.selector}' (${healed.strategy}, confidence ${healed.confidence.toFixed(2)})`);
+
+  if (options.writeBack && options.mappingFile) {
+    writeHealedSelector(options.mappingFile, element, healed.selector);
+  }
+
+  return healed;
+}
+
+/**
+ * Counts the elements a selector matches, treating invalid selectors as matching nothing
+ */
+async function countMatches(scope: any, selector: string): Promise<number> {
+  try {
+    return await scope.locator(selector).count();
+  } catch (error) {
+    return 0;
+  }
+}
+
+/**
+ * Captures the stored properties a live element is compared against
+ */
+function createFingerprint(element: DOMElement): ElementFingerprint {
+  const attributes: Record<string, string> = {};
+  for (const attr of FINGERPRINT_ATTRIBUTES) {
+    if (element.attributes?.[attr]) {
+      attributes[attr] = element.attributes[attr];
+    }
+  }
+
+  return {
+    tagName: element.tagName,
+    attributes,
+    text: (element.innerText || '').replace(/\s+/g, ' ').trim().toLowerCase(),
+    role: element.accessibility?.role || element.attributes?.role,
+    name: element.accessibility?.name?.toLowerCase(),
+    classes: element.classes || []
+  };
+}
+
+/**
+ * Scores live elements against a stored fingerprint (runs in the browser)
+ * Each score is a weighted similarity between 0 and 1 over the features the fingerprint has
+ */
+function scoreAgainstFingerprint(elements: Element[], fp: ElementFingerprint): FingerprintScore[] {
+  const tokenize = (value: string) => value.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  const overlap = (a: string[], b: string[]) => {
+    if (a.length === 0 && b.length === 0) return 1;
+    const setB = new Set(b);
+    const shared = a.filter(token => setB.has(token)).length;
+    return shared / Math.max(new Set([...a, ...b]).size, 1);
+  };
+
+  // Explicit role, or the implicit one of common elements; undefined when neither is known
+  const INPUT_ROLES: Record<string, string> = {
+    button: 'button', submit: 'button', reset: 'button', image: 'button', checkbox: 'checkbox', radio: 'radio',
+    range: 'slider', number: 'spinbutton', search: 'searchbox', email: 'textbox', tel: 'textbox', text: 'textbox', url: 'textbox'
+  };
+  const IMPLICIT_ROLES: Record<string, string> = {
+    button: 'button', select: 'combobox', textarea: 'textbox', img: 'img', nav: 'navigation', main: 'main',
+    ul: 'list', ol: 'list', li: 'listitem', table: 'table', tr: 'row', form: 'form', dialog: 'dialog',
+    h1: 'heading', h2: 'heading', h3: 'heading', h4: 'heading', h5: 'heading', h6: 'heading'
+  };
+  const getRole = (el: Element): string | undefined => {
+    const explicit = el.getAttribute('role');
+    if (explicit) return explicit.split(/\s+/)[0];
+    const tagName = el.tagName.toLowerCase();
+    if (tagName === 'a' || tagName === 'area') return el.hasAttribute('href') ? 'link' : undefined;
+    if (tagName === 'input') return INPUT_ROLES[(el.getAttribute('type') || 'text').toLowerCase()];
+    return IMPLICIT_ROLES[tagName];
+  };
+
+  const score = (el: Element): { score: number, discriminating: boolean } => {
+    let total = 0;
+    let weights = 0;
+    let discriminating = false;
+
+    const attributeNames = Object.keys(fp.attributes);
+    if (attributeNames.length > 0) {
+      const matching = attributeNames.filter(name => el.getAttribute(name) === fp.attributes[name]).length;
+      total += 0.4 * (matching / attributeNames.length);
+      weights += 0.4;
+      discriminating = discriminating || matching > 0;
+    }
+
+    if (fp.text) {
+      const text = (el.textContent || '').replace(/\s+/g, ' ').trim().toLowerCase();
+      const similarity = text === fp.text ? 1 : overlap(tokenize(fp.text), tokenize(text));
+      total += 0.35 * similarity;
+      weights += 0.35;
+      discriminating = discriminating || similarity > 0;
+    }
+
+    if (fp.name) {
+      const name = (el.getAttribute('aria-label') || el.textContent || '').replace(/\s+/g, ' ').trim().toLowerCase();
+      const similarity = overlap(tokenize(fp.name), tokenize(name));
+      total += 0.15 * similarity;
+      weights += 0.15;
+      discriminating = discriminating || similarity > 0;
+    }
+
+    if (fp.role) {
+      total += 0.1 * (getRole(el) === fp.role ? 1 : 0);
+      weights += 0.1;
+    }
+
+    if (fp.classes.length > 0) {
+      total += 0.1 * overlap(fp.classes, Array.from(el.classList));
+      weights += 0.1;
+    }
+
+    return { score: weights > 0 ? total / weights : 0, discriminating };
+  };
+
+  // Selectors naming the element by what it is, most stable first
+  const selectorsFor = (el: Element): string[] => {
+    const tagName = el.tagName.toLowerCase();
+    const selectors: string[] = [];
+    for (const attr of ['data-testid', 'data-test', 'data-qa', 'data-cy']) {
+      const value = el.getAttribute(attr);
+      if (value) selectors.push(`[${attr}=${JSON.stringify(value)}]`);
+    }
+    if (el.id && /^[A-Za-z][\w-]*$/.test(el.id)) selectors.push(`#${el.id}`);
+    for (const attr of ['name', 'aria-label', 'placeholder', 'title', 'href', 'alt']) {
+      const value = el.getAttribute(attr);
+      if (value) selectors.push(`${tagName}[${attr}=${JSON.stringify(value)}]`);
+    }
+    return selectors;
+  };
+
+  return elements.map(el => ({
+    ...score(el),
+    selectors: selectorsFor(el)
+  }));
+}
+
+/**
+ * Records a healed selector in the mapping file as the element's preferred selector
+ */
+function writeHealedSelector(mappingFile: string, element: DOMElement, selector: string): void {
+  try {
+    const mapping = readMappingFile(mappingFile);
+    const elements = mapping.elements;
+
+    const stored = elements.find(el =>
+      (element.stableId && el.stableId === element.stableId) ||
+      (el.semanticKey === element.semanticKey && el.xpath === element.xpath)
+    );
+    if (!stored) {
+      console.warn(`Could not find '${element.semanticKey}' in ${mappingFile}, healed selector not saved`);
+      return;
+    }
+
+    for (const target of [stored, element]) {
+      target.selectorCandidates = [
+        { strategy: 'healed', selector, unique: true, matchCount: 1 },
+        ...(target.selectorCandidates || []).filter(candidate => candidate.selector !== selector)
+      ];
+      target.alternativeSelectors = [
+        selector,
+        ...(target.alternativeSelectors || []).filter(alternative => alternative !== selector)
+      ];
+      target.lastUpdated = new Date().toISOString();
+    }
+
+    writeMappingFile(mappingFile, elements, mapping.metadata, mapping.collections);
+    console.log(`Saved healed selector for '${element.semanticKey}' to ${mappingFile}`);
+  } catch (error) {
+    console.error(`Error writing healed selector to ${mappingFile}:`, error);
+  }
+}
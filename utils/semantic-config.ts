@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ScoringConfig } from './description-scorer';
+import { VectorIndexConfig } from './vector-index';
+import { PageRouting } from './page-routes';
+
+/**
+ * Project-level configuration, read from semantic.config.json
+ */
+export interface SemanticConfig extends PageRouting {
+  scoring?: Partial<ScoringConfig>;
+  vectorIndex?: Partial<VectorIndexConfig>;
+}
+
+const DEFAULT_CONFIG_FILE = 'semantic.config.json';
+
+// Loaded configuration, keyed by file path
+const configCache: Record<string, SemanticConfig> = {};
+
+/**
+ * Path of the project configuration file
+ * Set SEMANTIC_CONFIG to use a file other than ./semantic.config.json
+ */
+export function getSemanticConfigPath(): string {
+  return path.resolve(process.env.SEMANTIC_CONFIG || DEFAULT_CONFIG_FILE);
+}
+
+/**
+ * Loads the project configuration, returning an empty configuration when the file doesn't exist
+ *
+ * @param configPath Custom path to the configuration file (optional)
+ */
+export function loadSemanticConfig(configPath: string = getSemanticConfigPath()): SemanticConfig {
+  if (configCache[configPath]) {
+    return configCache[configPath];
+  }
+
+  let config: SemanticConfig = {};
+  if (fs.existsSync(configPath)) {
+    try {
+      config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    } catch (error) {
+      console.error(`Error reading semantic config ${configPath}:`, error);
+    }
+  }
+
+  configCache[configPath] = config;
+  return config;
+}
+
+/**
+ * Forget loaded configuration so the next load reads the file again - useful for testing
+ */
+export function clearSemanticConfigCache(): void {
+  Object.keys(configCache).forEach(key => {
+    delete configCache[key];
+  });
+}
@@ -0,0 +1,92 @@
+import { test as base, expect, Locator } from '@playwright/test';
+import {
+  clearMappingCache, DescriptionOptions, DescriptionResolution, healByDescription, ResolvedDescription, resolveDescription
+} from './semantic-helper';
+
+/**
+ * How the semantic fixture handles selectors that no longer match exactly one element
+ * - off: use the stored selector as-is (default)
+ * - on: heal the locator at runtime
+ * - write-back: heal the locator and save the healed selector into the mapping file
+ */
+export type SemanticHealingPolicy = 'off' | 'on' | 'write-back';
+
+/**
+ * Test-scoped options configurable from the `use` block of playwright.config.ts or test.use()
+ */
+export interface SemanticTestOptions {
+  semanticFeature: string | undefined;
+  semanticHealing: SemanticHealingPolicy;
+}
+
+/**
+ * Worker-scoped options configurable from the `use` block of playwright.config.ts, per project
+ */
+export interface SemanticWorkerOptions {
+  semanticMappingDir: string;
+}
+
+/**
+ * Every option of the semantic fixture
+ */
+export type SemanticOptions = SemanticTestOptions & SemanticWorkerOptions;
+
+/**
+ * Natural language element lookup bound to the current page and configured options
+ */
+export interface SemanticFixture {
+  getByDescription(description: string, options?: string | DescriptionOptions): Promise<Locator>;
+  healByDescription(description: string, options?: string | DescriptionOptions): Promise<DescriptionResolution>;
+  resolveDescription(description: string, options?: string | DescriptionOptions): Promise<ResolvedDescription>;
+}
+
+type SemanticTestFixtures = SemanticTestOptions & {
+  semantic: SemanticFixture;
+};
+
+type SemanticWorkerFixtures = SemanticWorkerOptions & {
+  semanticMappingCache: void;
+};
+
+/**
+ * Playwright test with a `semantic` fixture:
+ *
+ *   import { test, expect } from '../utils/semantic-fixture';
+ *
+ *   test('login', async ({ semantic }) => {
+ *     await (await semantic.getByDescription('login button')).click();
+ *   });
+ */
+export const test = base.extend<SemanticTestFixtures, SemanticWorkerFixtures>({
+  // The mapping directory is worker-scoped so projects with different directories never share a cache
+  semanticMappingDir: ['./mappings', { option: true, scope: 'worker' }],
+  semanticFeature: [undefined, { option: true }],
+  semanticHealing: ['off', { option: true }],
+
+  // Each worker starts and ends with an empty mapping cache
+  semanticMappingCache: [async ({}, use) => {
+    clearMappingCache();
+    await use();
+    clearMappingCache();
+  }, { scope: 'worker', auto: true }],
+
+  semantic: async ({ page, semanticMappingDir, semanticFeature, semanticHealing }, use) => {
+    const withDefaults = (options?: string | DescriptionOptions): DescriptionOptions => ({
+      featureName: semanticFeature,
+      mappingPath: semanticMappingDir,
+      heal: semanticHealing !== 'off',
+      writeBack: semanticHealing === 'write-back',
+      ...(typeof options === 'string' ? { featureName: options } : options)
+    });
+    const heal = (description: string, options?: string | DescriptionOptions) =>
+      healByDescription(page, description, withDefaults(options));
+
+    await use({
+      getByDescription: async (description, options) => (await heal(description, options)).locator,
+      healByDescription: heal,
+      resolveDescription: (description, options) => resolveDescription(description, withDefaults(options))
+    });
+  }
+});
+
+export { expect };
@@ -1,12 +1,22 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import * as glob from 'glob';
+import { getElementScope, healLocator, HealingResult } from './self-healing';
+import { FallbackReason, recordResolutionEvent } from './resolution-log';
+import { DescriptionScorer, FuzzyMatch, ScoreBreakdown, ScoredElement, ScoringConfig } from './description-scorer';
+import { loadSemanticConfig } from './semantic-config';
+import { getMappingBaseName, isSamePage } from './page-routes';
+import { listMappingFiles, readMappingFile } from './mapping-file';
+import { ElementNeighbors } from './element-fingerprint';
+import {
+  createEmbeddingProvider, DEFAULT_VECTOR_INDEX_CONFIG, EmbeddingProvider, getElementIndexKey,
+  loadVectorIndex, queryVectorIndex, VectorIndex
+} from './vector-index';
 
 interface SelectorMap {
   [key: string]: string;
 }
 
-interface DOMElement {
+export interface DOMElement {
   tagName: string;
   id?: string;
   classes?: string[];
@@ -17,14 +27,221 @@ interface DOMElement {
   featureName?: string;
   url?: string;
   stableId?: string;
+  // Similarity to the element of the previous run whose stable ID was carried over
+  stableIdConfidence?: number;
+  neighbors?: ElementNeighbors;
+  // Forms, dialogs, sections and landmarks the element is inside, nearest first
+  ancestors?: ElementAncestor[];
   alternativeNames?: string[];
   alternativeSelectors?: string[];
   lastUpdated?: string;
+  // Last extraction the element was found in
+  lastSeen?: string;
+  // No longer found on the page; kept in the mapping by merge mode
+  stale?: boolean;
+  // Curated by hand; merge mode keeps its semantic key and alternative names
+  locked?: boolean;
+  // UI state the element only appears in, e.g. "cancel dialog"; absent for the page as loaded
+  state?: string;
+  // Clicks revealing the element from the page as loaded, the last one triggering it; usable as the actions of a states file
+  revealPath?: Array<{ click: { selector: string } }>;
+  framePath?: string[];
+  shadowHosts?: string[];
+  cssPath?: string;
+  accessibility?: {
+    role?: string;
+    name?: string;
+    description?: string;
+    states?: {
+      checked?: boolean | 'mixed';
+      expanded?: boolean;
+      disabled?: boolean;
+    };
+  };
+  selectorCandidates?: Array<{
+    strategy: string;
+    selector: string;
+    unique?: boolean;
+    matchCount?: number;
+  }>;
 }
 
+/**
+ * A container an element was extracted inside, which descriptions can be scoped to
+ */
+export interface ElementAncestor {
+  tagName: string;
+  role?: string;
+  // aria-label, aria-labelledby, legend or first heading of the container
+  name?: string;
+  id?: string;
+  // Unique within the element's document or shadow root
+  selector: string;
+  xpath: string;
+}
+
+/**
+ * An element found in every item of a collection, located relative to the item
+ */
+export interface CollectionTemplateElement {
+  tagName: string;
+  // Attributes with the same value in every item
+  attributes: Record<string, string>;
+  // Text shared by every item, absent when it is item data
+  innerText?: string;
+  role?: string;
+  semanticKey: string;
+  alternativeNames?: string[];
+  // CSS selector relative to the item
+  selector: string;
+  // Missing from some of the items
+  optional?: boolean;
+}
+
+/**
+ * A repeated structure (list, table rows, cards) mapped once as an item template
+ * instead of one element per item
+ */
+export interface ElementCollection {
+  semanticKey: string;
+  alternativeNames?: string[];
+  featureName?: string;
+  url?: string;
+  containerSelector: string;
+  // Selector of the items relative to the container, e.g. ":scope > li"
+  itemSelector: string;
+  itemTag: string;
+  itemCount: number;
+  framePath?: string[];
+  shadowHosts?: string[];
+  // UI state the collection only appears in
+  state?: string;
+  template: CollectionTemplateElement[];
+}
+
+/**
+ * Options for resolving an element from a description
+ */
+export interface DescriptionOptions {
+  featureName?: string;
+  mappingPath?: string;
+  // Heal the locator when its selector matches zero or several elements (default: false)
+  heal?: boolean;
+  // Save healed selectors back into the mapping file (default: false)
+  writeBack?: boolean;
+  // Minimum confidence (0-1) required to accept a healed element
+  minConfidence?: number;
+  // Throw when the closest matches come from different features and no feature name was given (default: true)
+  requireFeature?: boolean;
+  // Look the element up in the item template of the collection matching this description, e.g. "todo item"
+  in?: string;
+  // With `in`: only the item at this 0-based position, like locator.nth()
+  nth?: number;
+  // With `in`: only items containing this text
+  hasText?: string;
+  // Only elements inside the container matching this description, e.g. "billing form";
+  // an array chains nested containers, outermost first
+  within?: string | string[];
+  // Only search the mappings extracted from this page, or from pages matching the same route;
+  // getByDescription and healByDescription default to page.url()
+  pageUrl?: string;
+  // With pageUrl: fall back to the mappings of all pages when the page has none or nothing on it matches (default: false)
+  allPages?: boolean;
+  // UI state that is active, e.g. "cancel dialog": its elements are preferred and those of other states left out
+  state?: string;
+  // Record the resolution in the resolution log (default: true)
+  log?: boolean;
+}
+
+/**
+ * The best match for a description, with the runner-up used for ambiguity checks
+ */
+interface DescriptionMatch {
+  element: DOMElement;
+  score: number;
+  quality: number;
+  fuzzyMatches: FuzzyMatch[];
+  breakdown?: ScoreBreakdown;
+  runnerUp?: { element: DOMElement, score: number };
+  runnerUps?: ScoredElement[];
+  ambiguous: boolean;
+}
+
+/**
+ * How the selector of a resolved element was chosen: the strategy of the verified
+ * selector candidate, or the fallback used when no candidate was verified
+ */
+export type SelectorStrategy =
+  'testid' | 'id' | 'role' | 'label' | 'text' | 'attributes' | 'relative-xpath' | 'xpath' | 'healed' |
+  'alternative-selector' | 'css' | 'collection';
+
+/**
+ * Everything known about how a description was resolved to a mapped element
+ */
+export interface ResolvedDescription {
+  description: string;
+  featureName?: string;
+  element: DOMElement;
+  semanticKey?: string;
+  score: number;
+  breakdown: ScoreBreakdown;
+  // 1 when every description word matched exactly, lower for misspelled or missing words
+  matchQuality: number;
+  fuzzyMatches: FuzzyMatch[];
+  // The next best matches, best first
+  runnerUps: Array<{ element: DOMElement, semanticKey?: string, score: number, breakdown: ScoreBreakdown }>;
+  ambiguous: boolean;
+  selector: string;
+  selectorStrategy: SelectorStrategy;
+  // Whether the selector was verified to match exactly one element when the page was extracted
+  selectorVerified: boolean;
+  mappingFile?: string;
+  // Collection the element was looked up in, when resolved with the `in` option
+  collection?: ElementCollection;
+  // Containers matched for the `within` option, outermost first; the selector is relative to the last one
+  scope?: ElementAncestor[];
+}
+
+/**
+ * A healed locator together with the mapped element it was resolved from and how well the description matched
+ */
+export interface DescriptionResolution extends HealingResult {
+  resolution: ResolvedDescription;
+  semanticKey?: string;
+  score: number;
+  // 1 when every description word matched exactly, lower for misspelled or missing words
+  matchQuality: number;
+  fuzzyMatches: FuzzyMatch[];
+}
+
+// Roles that are worth targeting with a role=...[name=...] locator
+const LOCATABLE_ROLES = [
+  'button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem', 'menuitemcheckbox',
+  'menuitemradio', 'option', 'textbox', 'searchbox', 'combobox', 'listbox', 'slider',
+  'spinbutton', 'heading', 'dialog', 'navigation', 'region', 'form', 'img', 'treeitem'
+];
+
+// Number of runner-up matches kept in a resolution
+const MAX_RUNNER_UPS = 9;
+
+// Scorer built from the "scoring" section of semantic.config.json, created on first use
+let descriptionScorer: DescriptionScorer | null = null;
+
+// Embedding provider for the vector index, created on first use when the index is enabled
+let embeddingProvider: EmbeddingProvider | null = null;
+
+// Vector indexes loaded for mapping files (null when a mapping file has none)
+const vectorIndexCache: Record<string, VectorIndex | null> = {};
+
 // Cache for loaded mappings to avoid repeated file reads
 const mappingCache: Record<string, DOMElement[]> = {};
 
+// Collections of the loaded mapping files
+const collectionCache: Record<string, ElementCollection[]> = {};
+
+// Page URL and route pattern each cached mapping file was extracted for
+const mappingPageCache: Record<string, { url?: string, route?: string }> = {};
+
 // Cache specifically for URL to mapping file lookup
 const urlMappingCache: Record<string, string> = {};
 
@@ -38,10 +255,75 @@ export function clearMappingCache(): void {
   Object.keys(mappingCache).forEach(key => {
     delete mappingCache[key];
   });
+  Object.keys(collectionCache).forEach(key => {
+    delete collectionCache[key];
+  });
+  Object.keys(mappingPageCache).forEach(key => {
+    delete mappingPageCache[key];
+  });
   Object.keys(urlMappingCache).forEach(key => {
     delete urlMappingCache[key];
   });
   testUrlCache.clear();
+  Object.keys(vectorIndexCache).forEach(key => {
+    delete vectorIndexCache[key];
+  });
+}
+
+/**
+ * Replace the scoring configuration used to match descriptions
+ * Values not given fall back to semantic.config.json and then to the built-in defaults
+ */
+export function configureScoring(config: Partial<ScoringConfig>): void {
+  const fileConfig = loadSemanticConfig().scoring || {};
+  descriptionScorer = new DescriptionScorer({
+    ...fileConfig,
+    ...config,
+    weights: { ...fileConfig.weights, ...config.weights } as ScoringConfig['weights']
+  });
+}
+
+/**
+ * Similarity of the description to each cached element according to the vector indexes,
+ * or undefined when the vector index is not enabled in semantic.config.json
+ */
+async function getVectorSimilarities(description: string): Promise<Map<DOMElement, number> | undefined> {
+  const config = { ...DEFAULT_VECTOR_INDEX_CONFIG, ...loadSemanticConfig().vectorIndex };
+  if (!config.enabled) {
+    return undefined;
+  }
+  
+  if (!embeddingProvider) {
+    embeddingProvider = createEmbeddingProvider(config, text => getScorer().tokenize(text));
+  }
+  
+  const similarities = new Map<DOMElement, number>();
+  for (const [file, elements] of Object.entries(mappingCache)) {
+    if (!(file in vectorIndexCache)) {
+      vectorIndexCache[file] = loadVectorIndex(file);
+    }
+    const index = vectorIndexCache[file];
+    if (!index) continue;
+    
+    const byKey = await queryVectorIndex(index, description, embeddingProvider);
+    for (const element of elements) {
+      const similarity = byKey.get(getElementIndexKey(element)) || 0;
+      if (similarity >= config.minSimilarity) {
+        similarities.set(element, similarity);
+      }
+    }
+  }
+  return similarities;
+}
+
+/**
+ * Returns the description scorer, creating it from semantic.config.json on first use
+ */
+function getScorer(): DescriptionScorer {
+  if (!descriptionScorer) {
+    descriptionScorer = new DescriptionScorer(loadSemanticConfig().scoring);
+  }
+  return descriptionScorer;
 }
 
 /**
@@ -58,135 +340,474 @@ export async function getElementByDescription(
   featureName?: string,
   mappingPath: string = './mappings'
 ): Promise<string> {
+  const resolution = await resolveDescription(description, featureName, mappingPath);
+  return resolution.selector;
+}
+
+/**
+ * Resolves a natural language description to a mapped element without touching the page
+ * 
+ * @param description Human-readable description of the element (e.g., "search button")
+ * @param featureNameOrOptions Optional feature name to scope the search, or resolution options
+ * @param mappingPath Custom path to the mapping files (optional)
+ * @returns The matched element, its score breakdown, runner-ups and the selector chosen for it
+ */
+export async function resolveDescription(
+  description: string,
+  featureNameOrOptions?: string | DescriptionOptions,
+  mappingPath: string = './mappings'
+): Promise<ResolvedDescription> {
+  const options = normalizeOptions(featureNameOrOptions);
+  if (!options.pageUrl) {
+    // Without a page, prefer the page the calling test navigates to but don't insist on it
+    const detectedUrl = detectPageUrlFromCallingContext();
+    if (detectedUrl) {
+      options.pageUrl = detectedUrl;
+      options.allPages = true;
+    }
+  }
+  const resolution = await resolve(description, options, mappingPath, options.log !== false);
+  
+  if (options.log !== false) {
+    recordResolutionEvent({
+      ...describeResolution(resolution),
+      fallbackReason: resolution.ambiguous ? 'ambiguous' : 
+        resolution.selectorStrategy === 'xpath' ? 'xpath-fallback' : undefined
+    });
+  }
+  
+  return resolution;
+}
+
+/**
+ * Resolves a description and chooses a selector, without recording a resolution event
+ */
+async function resolve(
+  description: string,
+  options: DescriptionOptions,
+  mappingPath: string,
+  recordFailures: boolean = true
+): Promise<ResolvedDescription> {
   // Load all mapping files if not in cache
   if (Object.keys(mappingCache).length === 0) {
-    await loadAllMappings(mappingPath);
+    await loadAllMappings(options.mappingPath || mappingPath);
   }
-
-  // Normalize the description for matching
-  const normalizedDescription = description.toLowerCase().trim();
-  const descriptionWords = normalizedDescription.split(/\s+/);
   
-  // Track all potential matches and their scores
-  const potentialMatches: Array<{ element: DOMElement, score: number, matchedAltName?: string }> = [];
-  
-  // Search through all mapping files
-  for (const file of Object.keys(mappingCache)) {
-    for (const element of mappingCache[file]) {
-      // Skip elements without semantic keys
-      if (!element.semanticKey) continue;
-      
-      // Calculate match score for this element
-      let score = 0;
-      
-      // Check if the element's semantic key matches the description
-      const semanticKey = element.semanticKey.toLowerCase();
-      
-      // Exact match with semantic key (removing feature prefix if present)
-      const keyWithoutPrefix = semanticKey.includes('_') ? 
-        semanticKey.split('_').slice(1).join('_') : 
-        semanticKey;
-      
-      if (keyWithoutPrefix === normalizedDescription) {
-        score += 100;
-      }
-      
-      // Partial match with semantic key
-      const keyWords = keyWithoutPrefix.split(/[_-]/);
-      for (const word of descriptionWords) {
-        if (word.length < 3) continue; // Skip short words
-        if (keyWords.includes(word)) {
-          score += 10;
-        }
-        if (keyWithoutPrefix.includes(word)) {
-          score += 5;
-        }
+  if (options.pageUrl) {
+    const pageFiles = findPageMappingFiles(options.pageUrl);
+    if (pageFiles.length > 0) {
+      try {
+        return await resolveInFiles(description, options, pageFiles, recordFailures && !options.allPages);
+      } catch (error) {
+        if (!options.allPages) throw error;
+        console.warn(`No match for '${description}' in the mappings of ${options.pageUrl}, searching all pages`);
       }
-      
-      // Check alternative names for matches
-      let matchedAltName = '';
-      if (element.alternativeNames && element.alternativeNames.length > 0) {
-        for (const altName of element.alternativeNames) {
-          const normalizedAltName = altName.toLowerCase();
-          
-          // Exact match with alternative name
-          if (normalizedAltName === normalizedDescription) {
-            score += 100;
-            matchedAltName = altName;
-            break; // Found an exact match, no need to check other alt names
-          }
-          
-          // Word-level matches with alternative name
-          let wordMatches = 0;
-          let wordMatchTotal = descriptionWords.length;
-          
-          for (const word of descriptionWords) {
-            if (word.length < 3) {
-              wordMatchTotal--; // Don't count very short words
-              continue;
-            }
-            if (normalizedAltName.includes(word)) {
-              wordMatches++;
-            }
-          }
-          
-          // If all significant words match, high score
-          if (wordMatches > 0 && wordMatchTotal > 0) {
-            const altScore = Math.round(30 * (wordMatches / wordMatchTotal));
-            if (altScore > 0) {
-              score += altScore;
-              // Keep track of which alternative name matched best
-              if (!matchedAltName || altScore > 20) {
-                matchedAltName = altName;
-              }
-            }
-          }
-        }
+    } else if (!options.allPages) {
+      if (recordFailures) {
+        recordResolutionEvent({ description, featureName: options.featureName, fallbackReason: 'not-found', error: 'no mapping for page' });
       }
-      
-      // Boost elements from the specified feature
-      if (featureName && element.featureName === featureName) {
-        score += 20;
-      }
-      
-      // Check element's inner text for matches with description
-      if (element.innerText) {
-        const normalizedText = element.innerText.toLowerCase();
-        for (const word of descriptionWords) {
-          if (word.length < 3) continue;
-          if (normalizedText.includes(word)) {
-            score += 5;
-          }
+      throw new Error(`No mapping file found for page ${options.pageUrl}. Extract the page first or pass allPages: true to search the mappings of all pages`);
+    }
+  }
+  
+  return resolveInFiles(description, options, Object.keys(mappingCache), recordFailures);
+}
+
+/**
+ * Resolves a description among the elements of the given mapping files
+ */
+async function resolveInFiles(
+  description: string,
+  options: DescriptionOptions,
+  files: string[],
+  recordFailures: boolean
+): Promise<ResolvedDescription> {
+  if (options.in) {
+    return resolveInCollection(description, options, files, recordFailures);
+  }
+  if (options.within) {
+    return resolveWithin(description, options, files, recordFailures);
+  }
+  
+  const match = await findElementByDescription(description, options, files, recordFailures);
+  const { selector, strategy, verified } = generateSelector(match.element);
+  
+  return {
+    description,
+    featureName: options.featureName,
+    element: match.element,
+    semanticKey: match.element.semanticKey,
+    score: match.score,
+    breakdown: match.breakdown!,
+    matchQuality: match.quality,
+    fuzzyMatches: match.fuzzyMatches,
+    runnerUps: (match.runnerUps || []).map(runnerUp => ({
+      element: runnerUp.element,
+      semanticKey: runnerUp.element.semanticKey,
+      score: runnerUp.score,
+      breakdown: runnerUp.breakdown
+    })),
+    ambiguous: match.ambiguous,
+    selector,
+    selectorStrategy: strategy,
+    selectorVerified: verified,
+    mappingFile: findMappingFileForElement(match.element)
+  };
+}
+
+/**
+ * Resolves a description against the item template of the collection matching `options.in`
+ * The selector chains the container, the items (narrowed by `hasText` and `nth`) and the template element
+ */
+async function resolveInCollection(
+  description: string,
+  options: DescriptionOptions,
+  files: string[],
+  recordFailures: boolean
+): Promise<ResolvedDescription> {
+  const scorer = getScorer();
+  const featureName = options.featureName;
+  const collections = new Map<DOMElement, { collection: ElementCollection, file: string }>();
+  for (const file of files) {
+    for (const collection of (collectionCache[file] || []).filter(collection => isInState(collection, options.state))) {
+      collections.set({
+        tagName: collection.itemTag,
+        attributes: {},
+        xpath: '',
+        semanticKey: collection.semanticKey,
+        alternativeNames: collection.alternativeNames,
+        featureName: collection.featureName,
+        state: collection.state
+      }, { collection, file });
+    }
+  }
+  
+  const [bestCollection] = scorer.rank(options.in!, [...collections.keys()], { featureName, state: options.state });
+  if (!bestCollection) {
+    if (recordFailures) {
+      recordResolutionEvent({ description: `${description} in ${options.in}`, featureName, fallbackReason: 'not-found' });
+    }
+    throw new Error(`No collection found matching '${options.in}'`);
+  }
+  const { collection, file } = collections.get(bestCollection.element)!;
+  
+  const templateElements = new Map<DOMElement, CollectionTemplateElement>();
+  for (const entry of collection.template) {
+    templateElements.set({
+      tagName: entry.tagName,
+      attributes: entry.attributes,
+      innerText: entry.innerText,
+      xpath: '',
+      semanticKey: entry.semanticKey,
+      alternativeNames: entry.alternativeNames,
+      featureName: collection.featureName,
+      framePath: collection.framePath,
+      state: collection.state,
+      accessibility: entry.role ? { role: entry.role } : undefined
+    }, entry);
+  }
+  
+  const matches = scorer.rank(description, [...templateElements.keys()], { featureName, state: options.state });
+  if (matches.length === 0) {
+    if (recordFailures) {
+      recordResolutionEvent({ description: `${description} in ${options.in}`, featureName, fallbackReason: 'not-found' });
+    }
+    throw new Error(`No element matching '${description}' in the items of collection '${collection.semanticKey}'`);
+  }
+  const [best, ...runnerUps] = matches;
+  console.log(`Description '${description}' matched to '${best.element.semanticKey}' in collection '${collection.semanticKey}' with score ${best.score}`);
+  
+  const items = `${collection.itemSelector}${options.hasText ? `:has-text(${JSON.stringify(options.hasText)})` : ''}`;
+  const selector = [
+    ...(collection.shadowHosts || []),
+    collection.containerSelector,
+    items,
+    ...(options.nth !== undefined ? [`nth=${options.nth}`] : []),
+    templateElements.get(best.element)!.selector
+  ].join(' >> ');
+  
+  return {
+    description,
+    featureName,
+    element: best.element,
+    semanticKey: best.element.semanticKey,
+    score: best.score,
+    breakdown: best.breakdown,
+    matchQuality: best.quality,
+    fuzzyMatches: best.breakdown.fuzzyMatches,
+    runnerUps: runnerUps.slice(0, MAX_RUNNER_UPS).map(runnerUp => ({
+      element: runnerUp.element,
+      semanticKey: runnerUp.element.semanticKey,
+      score: runnerUp.score,
+      breakdown: runnerUp.breakdown
+    })),
+    ambiguous: runnerUps.length > 0 && scorer.isAmbiguous(best.score, runnerUps[0].score),
+    selector,
+    selectorStrategy: 'collection',
+    selectorVerified: false,
+    mappingFile: file,
+    collection
+  };
+}
+
+/**
+ * Resolves a description among the elements inside the container(s) matching `options.within`
+ * Each scope description is matched against the recorded ancestors of the remaining elements,
+ * nested inside the container matched for the previous one
+ */
+async function resolveWithin(
+  description: string,
+  options: DescriptionOptions,
+  files: string[],
+  recordFailures: boolean
+): Promise<ResolvedDescription> {
+  const scorer = getScorer();
+  const featureName = options.featureName;
+  const scopes = Array.isArray(options.within) ? options.within : [options.within!];
+  const ancestorKey = (file: string, element: DOMElement, ancestor: ElementAncestor) =>
+    [file, ...(element.framePath || []), ...(element.shadowHosts || []), ancestor.selector].join(' >> ');
+  
+  let candidates = files.flatMap(file => mappingCache[file]
+    .filter(element => element.semanticKey && !element.stale && element.ancestors && isInState(element, options.state))
+    .map(element => ({ file, element })));
+  const chain: Array<{ key: string, ancestor: ElementAncestor }> = [];
+  
+  for (const scopeDescription of scopes) {
+    const previous = chain[chain.length - 1];
+    const containers = new Map<string, { ancestor: ElementAncestor, element: DOMElement }>();
+    for (const { file, element } of candidates) {
+      const ancestors = element.ancestors!;
+      // Only containers nested inside the previously matched one, which come before it in the list
+      const limit = previous ? ancestors.findIndex(ancestor => ancestorKey(file, element, ancestor) === previous.key) : ancestors.length;
+      for (const ancestor of ancestors.slice(0, limit)) {
+        const key = ancestorKey(file, element, ancestor);
+        if (!containers.has(key)) {
+          containers.set(key, { ancestor, element: describeAncestor(ancestor, element) });
         }
       }
-      
-      // Check tag name for matches (for element type descriptions like "button", "input", etc.)
-      if (descriptionWords.includes(element.tagName.toLowerCase())) {
-        score += 15;
-      }
-      
-      // Add to potential matches if score is above threshold
-      if (score > 0) {
-        potentialMatches.push({ 
-          element, 
-          score,
-          matchedAltName
-        });
+    }
+    
+    const byElement = new Map([...containers].map(([key, container]) => [container.element, { key, ...container }]));
+    const [best] = scorer.rank(scopeDescription, [...byElement.keys()], { featureName });
+    if (!best) {
+      if (recordFailures) {
+        recordResolutionEvent({ description: `${description} within ${scopes.join(' > ')}`, featureName, fallbackReason: 'not-found' });
       }
+      throw new Error(`No container found matching '${scopeDescription}'`);
+    }
+    
+    const match = byElement.get(best.element)!;
+    console.log(`Scope '${scopeDescription}' matched to ${match.ancestor.tagName} '${match.ancestor.name || match.ancestor.selector}' with score ${best.score}`);
+    chain.push({ key: match.key, ancestor: match.ancestor });
+    candidates = candidates.filter(({ file, element }) => 
+      element.ancestors!.some(ancestor => ancestorKey(file, element, ancestor) === match.key));
+  }
+  
+  const vectorSimilarity = await getVectorSimilarities(description);
+  const matches = scorer.rank(description, candidates.map(candidate => candidate.element), { featureName, state: options.state, vectorSimilarity });
+  if (matches.length === 0) {
+    if (recordFailures) {
+      recordResolutionEvent({ description: `${description} within ${scopes.join(' > ')}`, featureName, fallbackReason: 'not-found' });
     }
+    throw new Error(`No element matching '${description}' within '${scopes.join(' > ')}'`);
   }
   
-  // Sort potential matches by score (highest first)
-  potentialMatches.sort((a, b) => b.score - a.score);
+  const [best, ...runnerUps] = matches;
+  const scope = chain.map(link => link.ancestor);
+  const { selector, strategy, verified } = generateScopedSelector(best.element, scope[scope.length - 1]);
+  console.log(`Description '${description}' matched to '${best.element.semanticKey}' within '${scopes.join(' > ')}' with score ${best.score}`);
+  
+  return {
+    description,
+    featureName,
+    element: best.element,
+    semanticKey: best.element.semanticKey,
+    score: best.score,
+    breakdown: best.breakdown,
+    matchQuality: best.quality,
+    fuzzyMatches: best.breakdown.fuzzyMatches,
+    runnerUps: runnerUps.slice(0, MAX_RUNNER_UPS).map(runnerUp => ({
+      element: runnerUp.element,
+      semanticKey: runnerUp.element.semanticKey,
+      score: runnerUp.score,
+      breakdown: runnerUp.breakdown
+    })),
+    ambiguous: runnerUps.length > 0 && scorer.isAmbiguous(best.score, runnerUps[0].score),
+    selector,
+    selectorStrategy: strategy,
+    selectorVerified: verified,
+    mappingFile: findMappingFileForElement(best.element),
+    scope
+  };
+}
+
+/**
+ * A recorded container as an element the scorer can match scope descriptions against,
+ * named after its accessible name or id and its role, e.g. "billing_address_form"
+ */
+function describeAncestor(ancestor: ElementAncestor, element: DOMElement): DOMElement {
+  const kind = (ancestor.role || ancestor.tagName).replace(/[^a-z]+/gi, ' ').trim();
+  const label = (ancestor.name || ancestor.id || '').replace(/[_\-]+/g, ' ').trim();
+  const words = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  
+  return {
+    tagName: ancestor.tagName,
+    attributes: ancestor.id ? { id: ancestor.id } : {},
+    innerText: ancestor.name,
+    xpath: ancestor.xpath,
+    semanticKey: [...words(label), ...words(kind)].join('_'),
+    alternativeNames: [...new Set([label, `${label} ${kind}`, `${label} ${ancestor.tagName}`, kind]
+      .map(name => name.trim().toLowerCase())
+      .filter(name => name.length >= 3))],
+    featureName: element.featureName,
+    accessibility: { role: ancestor.role, name: ancestor.name }
+  };
+}
+
+/**
+ * Selector for an element relative to the container it was scoped to
+ * Role, label and text selectors only need to be unique inside the container, so they are
+ * preferred over page-wide XPath; XPath is rewritten relative to the container.
+ * Only a candidate unique on the whole page is known to be unique inside the container, one
+ * matching several elements of the page is used unverified.
+ */
+function generateScopedSelector(element: DOMElement, container: ElementAncestor): { selector: string, strategy: SelectorStrategy, verified: boolean } {
+  const candidates = (element.selectorCandidates || [])
+    .filter(option => option.strategy !== 'xpath' && option.strategy !== 'relative-xpath');
+  const candidate = candidates.find(option => option.unique === true) || candidates[0];
+  if (candidate) {
+    return { selector: candidate.selector, strategy: candidate.strategy as SelectorStrategy, verified: candidate.unique === true };
+  }
+  
+  const relativeXPath = getRelativeXPath(element, container);
+  if (relativeXPath) {
+    return { selector: relativeXPath, strategy: 'xpath', verified: false };
+  }
+  return generateSelector(element);
+}
+
+/**
+ * XPath selector of an element relative to a container it is nested in, if any
+ */
+function getRelativeXPath(element: DOMElement, container: ElementAncestor): string | undefined {
+  if (!element.shadowHosts && element.xpath.startsWith(`${container.xpath}/`)) {
+    return `xpath=.${element.xpath.substring(container.xpath.length)}`;
+  }
+  return undefined;
+}
+
+/**
+ * Checks an unverified scoped selector inside the chained containers on the live page, falling
+ * back to the XPath relative to the innermost container when it matches several elements there
+ * An element not rendered yet keeps the selector, which the locator waits for.
+ */
+async function verifyScopedSelector(root: any, resolution: ResolvedDescription): Promise<string> {
+  const relativeXPath = getRelativeXPath(resolution.element, resolution.scope![resolution.scope!.length - 1]);
+  if (!relativeXPath || relativeXPath === resolution.selector) {
+    return resolution.selector;
+  }
+  
+  const count = await root.locator(resolution.selector).count();
+  if (count <= 1) {
+    return resolution.selector;
+  }
+  console.warn(`Selector ${resolution.selector} matches ${count} elements within '${resolution.scope!.map(ancestor => ancestor.name || ancestor.selector).join(' > ')}', using ${relativeXPath}`);
+  return relativeXPath;
+}
+
+/**
+ * Chained locator for the containers a resolution was scoped to, or undefined when it wasn't scoped
+ */
+function locateScope(page: any, resolution: ResolvedDescription): any {
+  if (!resolution.scope) {
+    return undefined;
+  }
+  return resolution.scope.reduce(
+    (locator, ancestor) => locator.locator(ancestor.selector), 
+    getElementScope(page, resolution.element)
+  );
+}
+
+/**
+ * Locator for a resolved description, chained through the containers it was scoped to
+ * The resolved selector is used as is, without checking or healing it on the page.
+ */
+export function locateResolution(page: any, resolution: ResolvedDescription): any {
+  const root = locateScope(page, resolution);
+  return root ? root.locator(resolution.selector) : locateElement(page, resolution.element, resolution.selector);
+}
+
+/**
+ * Accepts either a feature name or an options object
+ */
+function normalizeOptions(featureNameOrOptions?: string | DescriptionOptions): DescriptionOptions {
+  return typeof featureNameOrOptions === 'string' ? 
+    { featureName: featureNameOrOptions } : 
+    { ...featureNameOrOptions };
+}
+
+/**
+ * Common resolution log fields for a resolved description
+ */
+function describeResolution(resolution: ResolvedDescription) {
+  const runnerUp = resolution.runnerUps[0];
+  return {
+    description: resolution.description,
+    featureName: resolution.featureName,
+    semanticKey: resolution.semanticKey,
+    score: resolution.score,
+    matchQuality: resolution.matchQuality,
+    fuzzyMatches: resolution.fuzzyMatches.length > 0 ? resolution.fuzzyMatches : undefined,
+    runnerUp: runnerUp ? { semanticKey: runnerUp.semanticKey, score: runnerUp.score } : undefined,
+    selector: resolution.selector
+  };
+}
+
+/**
+ * Common resolution log fields for a description match
+ */
+function describeMatch(description: string, featureName: string | undefined, match: DescriptionMatch) {
+  return {
+    description,
+    featureName,
+    semanticKey: match.element.semanticKey,
+    score: match.score,
+    matchQuality: match.quality,
+    fuzzyMatches: match.fuzzyMatches.length > 0 ? match.fuzzyMatches : undefined,
+    runnerUp: match.runnerUp ? 
+      { semanticKey: match.runnerUp.element.semanticKey, score: match.runnerUp.score } : 
+      undefined
+  };
+}
+
+/**
+ * Finds the mapped element that best matches a natural language description
+ */
+async function findElementByDescription(
+  description: string,
+  options: DescriptionOptions,
+  files: string[],
+  recordFailures: boolean = true
+): Promise<DescriptionMatch> {
+  const { featureName, state } = options;
+  const requireFeature = options.requireFeature !== false;
+  
+  // Score every mapped element that has a semantic key
+  const scorer = getScorer();
+  const candidates = files
+    .flatMap(file => mappingCache[file])
+    .filter(element => element.semanticKey && !element.stale && isInState(element, state));
+  const vectorSimilarity = await getVectorSimilarities(description);
+  const potentialMatches = scorer.rank(description, candidates, { featureName, state, vectorSimilarity });
   
   // Check for uniqueness - if multiple elements have similar high scores
+  let isAmbiguous = false;
   if (potentialMatches.length >= 2) {
     const topScore = potentialMatches[0].score;
     const runnerUpScore = potentialMatches[1].score;
     
-    // If scores are close (within 20% of each other), we have ambiguity
-    const ambiguityThreshold = topScore * 0.8;
-    const isAmbiguous = runnerUpScore >= ambiguityThreshold;
+    // If scores are close (by default within 20% of each other), we have ambiguity
+    isAmbiguous = scorer.isAmbiguous(topScore, runnerUpScore);
     
     if (isAmbiguous) {
       console.warn(`Ambiguous match detected for '${description}': Found ${potentialMatches.length} elements with similar scores`);
@@ -225,7 +846,21 @@ export async function getElementByDescription(
       
       // If a feature name was not provided but ambiguous elements have different features,
       // we could throw an error requiring feature specification
-      if (!featureName && differentFeatures.size > 1) {
+      if (requireFeature && !featureName && differentFeatures.size > 1) {
+        if (recordFailures) {
+          recordResolutionEvent({
+            ...describeMatch(description, featureName, { 
+              element: potentialMatches[0].element, 
+              score: potentialMatches[0].score, 
+              quality: potentialMatches[0].quality,
+              fuzzyMatches: potentialMatches[0].breakdown.fuzzyMatches,
+              runnerUp: potentialMatches[1], 
+              ambiguous: true 
+            }),
+            fallbackReason: 'ambiguous',
+            error: 'feature name required'
+          });
+        }
         throw new Error(`Ambiguous match for '${description}'. Please specify a feature name from: ${Array.from(differentFeatures).join(', ')}`);
       }
     }
@@ -234,37 +869,71 @@ export async function getElementByDescription(
   // Get the best match
   const bestMatch = potentialMatches.length > 0 ? potentialMatches[0] : null;
   
-  // If we found a match, generate a selector for it
   if (bestMatch) {
     console.log(`Description '${description}' matched to '${bestMatch.element.semanticKey}' with score ${bestMatch.score}`);
-    
-    // Return the best available selector using our selector generation logic
-    return generateSelector(bestMatch.element);
+    for (const fuzzy of bestMatch.breakdown.fuzzyMatches) {
+      console.log(`  '${fuzzy.word}' read as '${fuzzy.matched}' (similarity ${fuzzy.similarity})`);
+    }
+    return {
+      element: bestMatch.element,
+      score: bestMatch.score,
+      quality: bestMatch.quality,
+      fuzzyMatches: bestMatch.breakdown.fuzzyMatches,
+      breakdown: bestMatch.breakdown,
+      runnerUp: potentialMatches[1],
+      runnerUps: potentialMatches.slice(1, 1 + MAX_RUNNER_UPS),
+      ambiguous: isAmbiguous
+    };
   }
   
+  if (recordFailures) {
+    recordResolutionEvent({ description, featureName, fallbackReason: 'not-found' });
+  }
   throw new Error(`No element found matching description '${description}'`);
 }
 
 /**
  * Helper function to generate a reliable selector from a DOM element
+ * The selector is relative to the element's frame; use locateElement to apply the frame path
  */
-function generateSelector(element: DOMElement): string {
+function generateSelector(element: DOMElement): { selector: string, strategy: SelectorStrategy, verified: boolean } {
+  // Candidates verified as unique on the live page during extraction are ranked best-first
+  const verifiedCandidate = element.selectorCandidates?.find(candidate => candidate.unique);
+  if (verifiedCandidate) {
+    return { selector: verifiedCandidate.selector, strategy: verifiedCandidate.strategy as SelectorStrategy, verified: true };
+  }
+  
   // Use the best available selector strategy
   if (element.attributes && element.attributes['data-testid']) {
-    return `[data-testid="${element.attributes['data-testid']}"]`;
+    return { selector: `[data-testid="${element.attributes['data-testid']}"]`, strategy: 'testid', verified: false };
   } else if (element.id) {
-    return `#${element.id}`;
+    return { selector: `#${element.id}`, strategy: 'id', verified: false };
+  } else if (getRoleSelector(element)) {
+    return { selector: getRoleSelector(element)!, strategy: 'role', verified: false };
   } else if (element.alternativeSelectors && element.alternativeSelectors.length > 0) {
     const primarySelector = element.alternativeSelectors[0];
     // Prefix XPath selectors with xpath=
     if (primarySelector.startsWith('/')) {
-      return `xpath=${primarySelector}`;
+      return { selector: `xpath=${primarySelector}`, strategy: 'xpath', verified: false };
     }
-    return primarySelector;
+    return { selector: primarySelector, strategy: 'alternative-selector', verified: false };
   } else {
     // Generate a CSS selector based on element properties
-    return generateCssSelector(element);
+    const selector = generateCssSelector(element);
+    return { selector, strategy: selector.startsWith('xpath=') ? 'xpath' : 'css', verified: false };
+  }
+}
+
+/**
+ * Builds a Playwright role selector (e.g. role=button[name="Close"]) from the captured accessibility info
+ */
+function getRoleSelector(element: DOMElement): string | undefined {
+  const role = element.accessibility?.role;
+  const name = element.accessibility?.name?.trim();
+  if (!role || !name || name.length > 80 || !LOCATABLE_ROLES.includes(role)) {
+    return undefined;
   }
+  return `role=${role}[name="${name.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`;
 }
 
 /**
@@ -332,6 +1001,11 @@ function generateCssSelector(element: DOMElement): string {
     }
   }
   
+  // XPath does not pierce shadow roots, so chain through the shadow hosts instead
+  if (selector === element.tagName && element.shadowHosts && element.cssPath) {
+    return [...element.shadowHosts, element.cssPath].join(' >> ');
+  }
+  
   // If we couldn't create a specific CSS selector, fall back to XPath but with a warning
   if (selector === element.tagName && element.xpath) {
     console.warn(`Falling back to XPath for ${element.semanticKey} - consider adding data-testid attributes to improve test reliability`);
@@ -341,18 +1015,60 @@ function generateCssSelector(element: DOMElement): string {
   return selector;
 }
 
+/**
+ * Creates a locator for a mapped element, scoping it through any iframes it lives in
+ */
+function locateElement(page: any, element: DOMElement, selector: string): any {
+  return getElementScope(page, element).locator(selector);
+}
+
+/**
+ * Cached mapping files extracted from the given page, or from pages matching the same route
+ */
+function findPageMappingFiles(pageUrl: string): string[] {
+  const routing = loadSemanticConfig();
+  return Object.keys(mappingCache).filter(file => {
+    const { url, route } = mappingPageCache[file] || {};
+    const mappingUrl = route || url;
+    return mappingUrl !== undefined && isSamePage(pageUrl, mappingUrl, routing, url || '');
+  });
+}
+
+/**
+ * URL of a Playwright page, or undefined before it has navigated to a web page
+ */
+function getPageUrl(page: any): string | undefined {
+  const url = typeof page?.url === 'function' ? page.url() : undefined;
+  return typeof url === 'string' && /^https?:/.test(url) ? url : undefined;
+}
+
+/**
+ * Whether an element can be on screen in a UI state: elements of the page as loaded always can,
+ * elements of a state only while it is active. Without an active state every element counts.
+ */
+function isInState(element: Pick<DOMElement, 'state'>, state?: string): boolean {
+  return !state || !element.state || element.state === state;
+}
+
+/**
+ * Finds the mapping file a cached element was loaded from
+ */
+function findMappingFileForElement(element: DOMElement): string | undefined {
+  return Object.keys(mappingCache).find(file => mappingCache[file].includes(element));
+}
+
 /**
  * Find an element by its semantic key in the cache
+ * Keys are made unique when mappings are saved; older mappings may still share one, which is warned about
  */
 function findElementByKey(semanticKey: string): DOMElement | undefined {
-  for (const file of Object.keys(mappingCache)) {
-    const elements = mappingCache[file];
-    const element = elements.find(el => el.semanticKey === semanticKey);
-    if (element) {
-      return element;
-    }
+  const matches = Object.values(mappingCache)
+    .flat()
+    .filter(el => el.semanticKey === semanticKey && !el.stale);
+  if (matches.length > 1) {
+    console.warn(`Semantic key '${semanticKey}' is used by ${matches.length} elements, using the first; re-extract the page to disambiguate`);
   }
-  return undefined;
+  return matches[0];
 }
 
 /**
@@ -361,32 +1077,22 @@ function findElementByKey(semanticKey: string): DOMElement | undefined {
 async function loadAllMappings(mappingPath: string): Promise<void> {
   console.log(`Loading mapping files from: ${mappingPath}`);
   
-  const globPattern = path.join(mappingPath, '*.json');
-  console.log(`Using glob pattern: ${globPattern}`);
-  
-  const files = glob.sync(globPattern);
+  const files = listMappingFiles(mappingPath);
   console.log(`Found ${files.length} mapping files: ${files.join(', ')}`);
   
   for (const file of files) {
     try {
       if (!mappingCache[file]) {
         console.log(`Reading mapping file: ${file}`);
-        const fileContent = fs.readFileSync(file, 'utf-8');
-        const mappingData = JSON.parse(fileContent);
-        
-        // Handle both old (array) and new (object with elements) formats
-        if (Array.isArray(mappingData)) {
-          // Old format - direct array of elements
-          console.log(`Mapping file contains ${mappingData.length} elements (old format)`);
-          mappingCache[file] = mappingData;
-        } else if (mappingData.elements && Array.isArray(mappingData.elements)) {
-          // New format - object with elements array and metadata
-          console.log(`Mapping file contains ${mappingData.elements.length} elements (new format)`);
-          mappingCache[file] = mappingData.elements;
-        } else {
-          console.error(`Unrecognized mapping file format in ${file}`);
-          mappingCache[file] = [];
-        }
+        // Older array and unversioned formats are upgraded on read
+        const mapping = readMappingFile(file);
+        console.log(`Mapping file contains ${mapping.elements.length} elements`);
+        mappingCache[file] = mapping.elements;
+        collectionCache[file] = mapping.collections || [];
+        mappingPageCache[file] = {
+          url: mapping.metadata.url || mapping.elements.find(element => element.url)?.url,
+          route: mapping.metadata.route
+        };
       }
     } catch (error) {
       console.error(`Error reading mapping file ${file}:`, error);
@@ -434,7 +1140,7 @@ export async function updateSelectorIndex(
   const selectorMap: SelectorMap = {};
   elementsWithKeys.forEach((element: DOMElement) => {
     if (element.semanticKey) {
-      selectorMap[element.semanticKey] = generateSelector(element);
+      selectorMap[element.semanticKey] = generateSelector(element).selector;
     }
   });
   
@@ -449,17 +1155,10 @@ export async function updateSelectorIndex(
 }
 
 /**
- * Convert URL to a filename
+ * Convert URL to a filename, named after its route pattern when it matches one
  */
 function urlToFilename(url: string, featureName?: string): string {
-  const urlObj = new URL(url);
-  const hostname = urlObj.hostname.replace(/\./g, '_');
-  const pathname = urlObj.pathname.replace(/\//g, '_');
-  
-  const featurePrefix = featureName ? 
-    `${featureName.toLowerCase()}_` : '';
-  
-  return `${featurePrefix}${hostname}${pathname}.json`;
+  return `${getMappingBaseName(url, featureName, loadSemanticConfig())}.json`;
 }
 
 /**
@@ -484,19 +1183,9 @@ export async function getAllSemanticKeys(
     
     for (const element of elements) {
       if (element.semanticKey) {
-        // Create a description of the element
-        const description = element.innerText ? 
-          `${element.tagName} with text "${element.innerText.substring(0, 50)}${element.innerText.length > 50 ? '...' : ''}"` : 
-          `${element.tagName} element`;
-        
-        // Add feature info if available
-        const featureInfo = element.featureName ? 
-          ` (feature: ${element.featureName})` : 
-          '';
-        
         allKeys.push({
           key: element.semanticKey,
-          description: `${description}${featureInfo}`
+          description: describeElement(element)
         });
       }
     }
@@ -505,34 +1194,126 @@ export async function getAllSemanticKeys(
   return allKeys;
 }
 
+/**
+ * Short human-readable description of a mapped element
+ */
+function describeElement(element: DOMElement): string {
+  const description = element.innerText ? 
+    `${element.tagName} with text "${element.innerText.substring(0, 50)}${element.innerText.length > 50 ? '...' : ''}"` : 
+    `${element.tagName} element`;
+  
+  // Add feature info if available
+  const featureInfo = element.featureName ? 
+    ` (feature: ${element.featureName})` : 
+    '';
+  
+  return `${description}${featureInfo}`;
+}
+
 /**
  * Self-healing wrapper that uses natural language descriptions to find elements
  * 
  * @param page The Playwright page object
  * @param description Human-readable description of the element (e.g., "search button")
- * @param featureName Optional feature name to scope the search
+ * @param featureNameOrOptions Optional feature name to scope the search, or resolution options
  * @param mappingPath Custom path to the mapping files
  * @returns A locator for the element
  */
 export async function getByDescription(
   page: any, // Using any to avoid Playwright dependency, should be Page from @playwright/test
   description: string,
-  featureName?: string,
+  featureNameOrOptions?: string | DescriptionOptions,
   mappingPath: string = './mappings'
 ): Promise<any> { // Returns a Playwright Locator
+  const result = await healByDescription(page, description, featureNameOrOptions, mappingPath);
+  return result.locator;
+}
+
+/**
+ * Resolves a description to a locator and reports whether (and how) the selector had to be healed
+ * 
+ * @param page The Playwright page object
+ * @param description Human-readable description of the element
+ * @param featureNameOrOptions Optional feature name to scope the search, or resolution options
+ * @param mappingPath Custom path to the mapping files
+ * @returns The locator together with the healed selector, its confidence and the description match quality
+ */
+export async function healByDescription(
+  page: any,
+  description: string,
+  featureNameOrOptions?: string | DescriptionOptions,
+  mappingPath: string = './mappings'
+): Promise<DescriptionResolution> {
+  const options = normalizeOptions(featureNameOrOptions);
+  options.pageUrl = options.pageUrl || getPageUrl(page);
+  
+  let resolution: ResolvedDescription;
   try {
-    const selector = await getElementByDescription(description, featureName, mappingPath);
-    return page.locator(selector);
+    resolution = await resolve(description, options, mappingPath);
   } catch (error) {
     throw new Error(`Could not find element matching description '${description}': ${error}`);
   }
+  
+  const { element } = resolution;
+  let result: HealingResult;
+  // A collection selector matches one element per item unless narrowed down, so it is never healed
+  const root = locateScope(page, resolution);
+  const selector = root && !resolution.selectorVerified && resolution.selectorStrategy !== 'collection' ?
+    await verifyScopedSelector(root, resolution) :
+    resolution.selector;
+  if (options.heal !== true || resolution.selectorStrategy === 'collection') {
+    result = {
+      locator: root ? root.locator(selector) : locateElement(page, element, selector),
+      selector,
+      originalSelector: selector,
+      healed: false,
+      strategy: 'primary',
+      confidence: 1,
+      matchCount: -1
+    };
+  } else {
+    result = await healLocator(page, element, selector, {
+      minConfidence: options.minConfidence,
+      // Selectors healed inside a container are relative to it, so they are not written back
+      writeBack: options.writeBack && !root,
+      mappingFile: resolution.mappingFile,
+      root
+    });
+  }
+  
+  let fallbackReason: FallbackReason | undefined;
+  if (result.healed) {
+    fallbackReason = 'healed';
+  } else if (result.strategy === 'unresolved') {
+    fallbackReason = 'heal-failed';
+  } else if (resolution.ambiguous) {
+    fallbackReason = 'ambiguous';
+  } else if (resolution.selectorStrategy === 'xpath') {
+    fallbackReason = 'xpath-fallback';
+  }
+  
+  recordResolutionEvent({
+    ...describeResolution(resolution),
+    healedSelector: result.healed ? result.selector : undefined,
+    confidence: result.confidence,
+    fallbackReason
+  });
+  
+  return {
+    ...result,
+    resolution,
+    semanticKey: element.semanticKey,
+    score: resolution.score,
+    matchQuality: resolution.matchQuality,
+    fuzzyMatches: resolution.fuzzyMatches
+  };
 }
 
 /**
- * Attempt to detect the feature/context from the calling context
- * This analyzes the call stack to find the test file and map it to a URL
+ * Attempt to detect the page from the calling context
+ * This analyzes the call stack to find the test file and reads the URL of its first page.goto call
  */
-async function detectFeatureFromCallingContext(): Promise<string | undefined> {
+function detectPageUrlFromCallingContext(): string | undefined {
   try {
     // Capture the stack trace
     const stack = new Error().stack || '';
@@ -554,51 +1335,17 @@ async function detectFeatureFromCallingContext(): Promise<string | undefined> {
     if (!callerFile) return undefined;
     
     // Check if we have a cached URL for this test file
-    if (testUrlCache.has(callerFile)) {
-      const url = testUrlCache.get(callerFile);
-      
-      // Try to extract feature name from mapping file that matches this URL
-      if (url) {
-        for (const filename of Object.keys(mappingCache)) {
-          if (filename.includes(url.replace(/https?:\/\//, '').replace(/\./g, '_'))) {
-            // Extract feature name from filename if it has a prefix
-            const basename = path.basename(filename, '.json');
-            const parts = basename.split('_');
-            if (parts.length > 2) {
-              return parts[0]; // First part is the feature name
-            }
-          }
-        }
-      }
-      
-      return undefined;
-    }
-    
-    // If we don't have a cached URL, try to scan the test file to find the URL
-    if (fs.existsSync(callerFile)) {
+    if (!testUrlCache.has(callerFile) && fs.existsSync(callerFile)) {
       const content = fs.readFileSync(callerFile, 'utf-8');
       
       // Look for page.goto calls
-      const gotoMatches = content.match(/page\.goto\s*\(\s*['"]([^'"]+)['"]/);
-      if (gotoMatches && gotoMatches[1]) {
-        const url = gotoMatches[1];
-        testUrlCache.set(callerFile, url);
-        
-        // Now look for a feature name in mapping files
-        for (const filename of Object.keys(mappingCache)) {
-          if (filename.includes(url.replace(/https?:\/\//, '').replace(/\./g, '_'))) {
-            // Extract feature name from filename if it has a prefix
-            const basename = path.basename(filename, '.json');
-            const parts = basename.split('_');
-            if (parts.length > 2) {
-              return parts[0]; // First part is the feature name
-            }
-          }
-        }
-      }
+      const gotoMatches = content.match(/page\.goto\s*\(\s*['"`]([^'"`]+)['"`]/);
+      testUrlCache.set(callerFile, gotoMatches ? gotoMatches[1] : '');
     }
+    
+    return testUrlCache.get(callerFile) || undefined;
   } catch (error) {
-    console.warn('Failed to detect feature from context:', error);
+    console.warn('Failed to detect page from context:', error);
   }
   
   return undefined;
@@ -629,34 +1376,20 @@ export async function suggestSemanticKeys(
   description: string,
   mappingPath: string = './mappings'
 ): Promise<Array<{ key: string, description: string, score: number }>> {
-  const allKeys = await getAllSemanticKeys(mappingPath);
-  
-  // Convert description to lowercase for case-insensitive matching
-  const lowerDescription = description.toLowerCase();
+  let resolution: ResolvedDescription;
+  try {
+    // Suggestions are not resolutions, so nothing is written to the resolution log
+    resolution = await resolve(description, { requireFeature: false }, mappingPath, false);
+  } catch (error) {
+    return [];
+  }
   
-  // Score and rank each key based on how well it matches the description
-  return allKeys.map(item => {
-    // Calculate a simple relevance score
-    let score = 0;
-    
-    // Check for exact word matches in key and description
-    lowerDescription.split(/\s+/).forEach(word => {
-      if (word.length < 3) return; // Skip short words
-      
-      if (item.key.toLowerCase().includes(word)) {
-        score += 5; // Higher weight for matches in the key
-      }
-      
-      if (item.description.toLowerCase().includes(word)) {
-        score += 3; // Lower weight for matches in the description
-      }
-    });
-    
-    return { ...item, score };
-  })
-  .filter(item => item.score > 0) // Only return items with some relevance
-  .sort((a, b) => b.score - a.score) // Sort by score in descending order
-  .slice(0, 10); // Limit to top 10 results
+  // The best match followed by its runner-ups, as ranked by the same scorer used to resolve descriptions
+  return [resolution, ...resolution.runnerUps].map(match => ({
+    key: match.semanticKey!,
+    description: describeElement(match.element),
+    score: match.score
+  }));
 }
 
 // DEPRECATED: Export compatibility functions to avoid breaking existing code
@@ -669,8 +1402,8 @@ export async function suggestSemanticKeys(
 export async function getSemanticSelector(key: string): Promise<string> {
   console.warn('getSemanticSelector is deprecated. Use getByDescription instead for better natural language matching.');
   try {
-    const element = await getElementByDescription(key);
-    return element;
+    const resolution = await resolveDescription(key);
+    return resolution.selector;
   } catch (error) {
     return `[data-testid="${key}"]`;
   }
@@ -696,5 +1429,13 @@ export async function getSelfHealingLocator(page: any, key: string): Promise<any
 export async function updateSelectorForKey(key: string, url: string): Promise<string> {
   console.warn('updateSelectorForKey is deprecated and will be removed in a future version.');
   const selectorMap = await updateSelectorIndex(url);
-  return selectorMap[key] || `[data-testid="${key}"]`;
+  if (selectorMap[key]) {
+    return selectorMap[key];
+  }
+  try {
+    const resolution = await resolveDescription(key);
+    return resolution.selector;
+  } catch (error) {
+    return `[data-testid="${key}"]`;
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,234 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DOMMonitor } from '../dom-monitor';
+import { getHostAlias, getPageKey, matchRoute, PageRouting } from './page-routes';
+
+export interface CrawlOptions {
+  // Links followed from the start pages (default: 2)
+  maxDepth?: number;
+  // Pages extracted at most (default: 50)
+  maxPages?: number;
+  // Route patterns such as "/docs/*" a URL must match one of to be crawled; every URL when empty
+  include?: string[];
+  // Route patterns such as "/logout" of URLs never crawled
+  exclude?: string[];
+  // Local sitemap.xml whose URLs are crawled along with the start URLs
+  sitemap?: string;
+  // Wait in ms after the page loaded, before extracting
+  waitTime?: number;
+  // Save a screenshot next to each mapping
+  screenshots?: boolean;
+  routing?: PageRouting;
+}
+
+export type CrawlPageStatus = 'extracted' | 'duplicate' | 'failed';
+
+export interface CrawlPage {
+  url: string;
+  // Route pattern or path the page was deduplicated by
+  pageKey: string;
+  depth: number;
+  // Start URL, sitemap entry or the page linking to it
+  foundOn: string;
+  status: CrawlPageStatus;
+  // URL the page redirected to, which was extracted instead
+  redirectedTo?: string;
+  jsonPath?: string;
+  elementCount?: number;
+  // URL already extracted for the same page key
+  duplicateOf?: string;
+  error?: string;
+}
+
+export interface CrawlSummary {
+  startUrls: string[];
+  startedAt: string;
+  finishedAt: string;
+  pages: CrawlPage[];
+  // Links not followed: other origins, excluded patterns and files
+  skippedLinks: number;
+  // URLs left in the queue when maxPages was reached
+  unvisited: number;
+}
+
+const DEFAULT_MAX_DEPTH = 2;
+const DEFAULT_MAX_PAGES = 50;
+
+// Links to files rather than pages
+const FILE_EXTENSION = /\.(pdf|zip|gz|png|jpe?g|gif|svg|webp|ico|css|js|json|xml|txt|csv|xlsx?|docx?|mp[34]|woff2?)$/i;
+
+/**
+ * Reads the page URLs of a local sitemap.xml
+ * Entries of a sitemap index point to other sitemaps and are left out
+ */
+export function readSitemap(sitemapPath: string): string[] {
+  const xml = fs.readFileSync(sitemapPath, 'utf-8');
+  if (/<sitemapindex[\s>]/.test(xml)) {
+    console.warn(`${sitemapPath} is a sitemap index, pass one of the sitemaps it lists instead`);
+    return [];
+  }
+
+  return [...xml.matchAll(/<loc>\s*([^<]+?)\s*<\/loc>/g)].map(match => match[1]
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&'));
+}
+
+/**
+ * Crawls a site breadth first from the start URLs, following same-origin links up to maxDepth
+ * and extracting each page into its mapping with the monitor, which must be initialized.
+ * URLs sharing a page key (the same route pattern or path) are extracted once.
+ * A page that fails is recorded in the summary and the crawl goes on.
+ */
+export async function crawlSite(monitor: DOMMonitor, startUrls: string[], options: CrawlOptions = {}): Promise<CrawlSummary> {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+  const routing = options.routing || {};
+
+  const summary: CrawlSummary = {
+    startUrls,
+    startedAt: new Date().toISOString(),
+    finishedAt: '',
+    pages: [],
+    skippedLinks: 0,
+    unvisited: 0
+  };
+
+  const sitemapUrls = options.sitemap ? readSitemap(options.sitemap).map(url => rebaseSitemapUrl(url, startUrls, routing)) : [];
+  if (options.sitemap) {
+    console.log(`Read ${sitemapUrls.length} URLs from ${options.sitemap}`);
+  }
+  // Without start URLs, the sitemap tells which origins to crawl
+  const origins = new Set((startUrls.length > 0 ? startUrls : sitemapUrls).map(getOrigin));
+  const queue: Array<{ url: string, depth: number, foundOn: string }> = [];
+  const queued = new Set<string>();
+  // First URL extracted for each page key
+  const extractedPages = new Map<string, string>();
+  let crawled = 0;
+
+  const enqueue = (url: string, depth: number, foundOn: string) => {
+    const normalized = url.split('#')[0];
+    if (queued.has(normalized)) {
+      return;
+    }
+    if (!shouldCrawl(normalized, origins, options)) {
+      summary.skippedLinks++;
+      return;
+    }
+    queued.add(normalized);
+    queue.push({ url: normalized, depth, foundOn });
+  };
+
+  startUrls.forEach(url => enqueue(url, 0, 'start URL'));
+  sitemapUrls.forEach(url => enqueue(url, 0, 'sitemap'));
+
+  while (queue.length > 0) {
+    if (crawled >= maxPages) {
+      console.log(`Stopped after ${maxPages} pages, raise the page limit to crawl the ${queue.length} URLs left`);
+      summary.unvisited = queue.length;
+      break;
+    }
+
+    const { url, depth, foundOn } = queue.shift()!;
+    const pageKey = getPageKey(url, routing);
+    const duplicateOf = extractedPages.get(pageKey);
+    if (duplicateOf) {
+      summary.pages.push({ url, pageKey, depth, foundOn, status: 'duplicate', duplicateOf });
+      continue;
+    }
+
+    crawled++;
+    console.log(`[${crawled}/${maxPages}] Crawling ${url} (depth ${depth})`);
+    try {
+      await monitor.navigateTo(url);
+      await monitor.waitForNetworkIdle();
+      if (options.waitTime) {
+        await monitor.waitForTimeout(options.waitTime);
+      }
+
+      // A redirect, e.g. to a login page, is extracted as the page it landed on
+      const pageUrl = monitor.getPageUrl();
+      const landedKey = getPageKey(pageUrl, routing);
+      const redirectedTo = landedKey !== pageKey ? pageUrl : undefined;
+      if (redirectedTo) {
+        console.log(`${url} redirected to ${redirectedTo}`);
+        if (extractedPages.has(landedKey)) {
+          summary.pages.push({ url, pageKey: landedKey, depth, foundOn, status: 'duplicate', redirectedTo, duplicateOf: extractedPages.get(landedKey) });
+          continue;
+        }
+      }
+      const elements = await monitor.generateSemanticKeys(await monitor.extractDOMElements());
+      const report = await monitor.saveReport(pageUrl, elements);
+      extractedPages.set(pageKey, url);
+      extractedPages.set(landedKey, url);
+      if (options.screenshots) {
+        await monitor.takeScreenshot(path.join(path.dirname(report.jsonPath), `${path.basename(report.jsonPath, '.json')}.png`), true);
+      }
+
+      // Links are collected before capturing states, which navigate away
+      const links = depth < maxDepth ? await monitor.extractLinks() : [];
+      await monitor.captureStates(pageUrl);
+
+      summary.pages.push({ url, pageKey: landedKey, depth, foundOn, status: 'extracted', redirectedTo, jsonPath: report.jsonPath, elementCount: elements.length });
+      links.forEach(link => enqueue(link, depth + 1, url));
+    } catch (error) {
+      // Other URLs of the same page key still get a chance
+      console.error(`Could not crawl ${url}:`, error);
+      summary.pages.push({ url, pageKey, depth, foundOn, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  summary.finishedAt = new Date().toISOString();
+  return summary;
+}
+
+/**
+ * Whether a URL is a page of the crawled origins that the include and exclude patterns allow
+ */
+function shouldCrawl(url: string, origins: Set<string>, options: CrawlOptions): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    return false;
+  }
+
+  if (!origins.has(parsed.origin) || FILE_EXTENSION.test(parsed.pathname)) {
+    return false;
+  }
+  if (options.include && options.include.length > 0 && !options.include.some(pattern => matchRoute(pattern, url) !== null)) {
+    return false;
+  }
+  return !(options.exclude || []).some(pattern => matchRoute(pattern, url) !== null);
+}
+
+function getOrigin(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch (error) {
+    return '';
+  }
+}
+
+/**
+ * Sitemaps usually list production URLs; an entry whose host shares a host alias with the
+ * first start URL is moved onto that URL's origin, so the sitemap can drive a local crawl
+ */
+function rebaseSitemapUrl(url: string, startUrls: string[], routing: PageRouting): string {
+  if (startUrls.length === 0) {
+    return url;
+  }
+
+  try {
+    const entry = new URL(url);
+    const start = new URL(startUrls[0]);
+    if (entry.origin !== start.origin && getHostAlias(url, routing) === getHostAlias(startUrls[0], routing)) {
+      return new URL(`${entry.pathname}${entry.search}`, start.origin).toString();
+    }
+  } catch (error) {
+    // Invalid entries are skipped by shouldCrawl
+  }
+  return url;
+}
@@ -0,0 +1,262 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { DOMElement } from './semantic-helper';
+
+/**
+ * Configuration of the vector index, set in the "vectorIndex" section of semantic.config.json
+ */
+export interface VectorIndexConfig {
+  // Build the index when mappings are saved and use it when resolving descriptions
+  enabled: boolean;
+  // Number of hash buckets used by the built-in embedding
+  dimensions: number;
+  // Elements less similar than this to the description get no vector score
+  minSimilarity: number;
+  // Module exporting `embed(texts: string[]): Promise<number[][]>` to use a local embedding model instead of hashing
+  embeddingModule?: string;
+}
+
+/**
+ * Turns texts into vectors; all vectors from one provider have the same length
+ */
+export interface EmbeddingProvider {
+  name: string;
+  // Hashed term vectors are weighted by inverse document frequency at query time, model embeddings are not
+  weighting: 'idf' | 'none';
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+interface VectorIndexEntry {
+  key: string;
+  textHash: string;
+  vector: number[];
+}
+
+/**
+ * Vectors for the elements of one mapping file, stored in a `vectors` directory next to it
+ */
+export interface VectorIndex {
+  version: number;
+  provider: string;
+  mappingFile: string;
+  updated: string;
+  entries: VectorIndexEntry[];
+}
+
+export const DEFAULT_VECTOR_INDEX_CONFIG: VectorIndexConfig = {
+  enabled: false,
+  dimensions: 512,
+  minSimilarity: 0.25
+};
+
+const INDEX_VERSION = 1;
+const INDEX_DIRECTORY = 'vectors';
+
+/**
+ * Path of the vector index for a mapping file
+ * The index lives in a subdirectory so it is never picked up as a mapping file
+ */
+export function getVectorIndexPath(mappingFile: string): string {
+  return path.join(path.dirname(mappingFile), INDEX_DIRECTORY, path.basename(mappingFile));
+}
+
+/**
+ * Key that identifies an element across re-extractions of the same page
+ */
+export function getElementIndexKey(element: DOMElement): string {
+  return element.stableId || element.semanticKey || element.xpath;
+}
+
+/**
+ * The text an element is embedded from: its semantic key, alternative names, accessible name and text
+ */
+export function getElementDocument(element: DOMElement): string {
+  const parts = [
+    element.semanticKey?.replace(/[_-]+/g, ' '),
+    ...(element.alternativeNames || []),
+    element.accessibility?.name,
+    element.attributes?.['aria-label'],
+    element.attributes?.placeholder,
+    element.attributes?.title,
+    element.innerText?.substring(0, 200)
+  ];
+  return [...new Set(parts.filter(Boolean))].join('\n');
+}
+
+/**
+ * Creates the embedding provider: the configured local model, or deterministic hashed term vectors
+ * Hashed vectors are lexical, they only bring words sharing spelling, stems or synonyms together.
+ *
+ * @param config Vector index configuration
+ * @param tokenize Tokenizer for the hashed vectors; pass the description scorer's so synonyms and stems line up
+ */
+export function createEmbeddingProvider(config: Partial<VectorIndexConfig>, tokenize: (text: string) => string[]): EmbeddingProvider {
+  if (config.embeddingModule) {
+    const modulePath = path.resolve(config.embeddingModule);
+    const embeddingModule = require(modulePath);
+    if (typeof embeddingModule.embed !== 'function') {
+      throw new Error(`Embedding module ${modulePath} does not export an embed(texts) function`);
+    }
+    return {
+      name: embeddingModule.name || path.basename(modulePath),
+      weighting: 'none',
+      embed: texts => embeddingModule.embed(texts)
+    };
+  }
+
+  const dimensions = config.dimensions || DEFAULT_VECTOR_INDEX_CONFIG.dimensions;
+  return {
+    name: `hash-${dimensions}`,
+    weighting: 'idf',
+    embed: async texts => texts.map(text => hashEmbedding(tokenize(text), dimensions))
+  };
+}
+
+/**
+ * Reads the vector index of a mapping file, or null if there is none
+ */
+export function loadVectorIndex(mappingFile: string): VectorIndex | null {
+  const indexPath = getVectorIndexPath(mappingFile);
+  if (!fs.existsSync(indexPath)) {
+    return null;
+  }
+
+  try {
+    const index: VectorIndex = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+    return index.version === INDEX_VERSION ? index : null;
+  } catch (error) {
+    console.error(`Error reading vector index ${indexPath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Brings the vector index of a mapping file up to date with its elements
+ * Only elements whose text changed since the last build are embedded again
+ */
+export async function updateVectorIndex(
+  mappingFile: string,
+  elements: DOMElement[],
+  provider: EmbeddingProvider
+): Promise<{ indexPath: string, embedded: number, reused: number }> {
+  const existing = loadVectorIndex(mappingFile);
+  const previous = new Map<string, VectorIndexEntry>();
+  if (existing && existing.provider === provider.name) {
+    existing.entries.forEach(entry => previous.set(`${entry.key}|${entry.textHash}`, entry));
+  }
+
+  const entries: VectorIndexEntry[] = [];
+  const pending: Array<{ entry: VectorIndexEntry, text: string }> = [];
+  for (const element of elements) {
+    const text = getElementDocument(element);
+    if (!text) continue;
+
+    const key = getElementIndexKey(element);
+    const textHash = crypto.createHash('md5').update(text).digest('hex');
+    const reused = previous.get(`${key}|${textHash}`);
+    if (reused) {
+      entries.push(reused);
+    } else {
+      const entry = { key, textHash, vector: [] as number[] };
+      entries.push(entry);
+      pending.push({ entry, text });
+    }
+  }
+
+  if (pending.length > 0) {
+    const vectors = await provider.embed(pending.map(item => item.text));
+    pending.forEach((item, i) => {
+      item.entry.vector = vectors[i].map(value => Math.round(value * 10000) / 10000);
+    });
+  }
+
+  const index: VectorIndex = {
+    version: INDEX_VERSION,
+    provider: provider.name,
+    mappingFile: path.basename(mappingFile),
+    updated: new Date().toISOString(),
+    entries
+  };
+
+  const indexPath = getVectorIndexPath(mappingFile);
+  fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+  fs.writeFileSync(indexPath, JSON.stringify(index));
+
+  return { indexPath, embedded: pending.length, reused: entries.length - pending.length };
+}
+
+/**
+ * Cosine similarity of a description to every entry of an index, keyed by element index key
+ */
+export async function queryVectorIndex(
+  index: VectorIndex,
+  description: string,
+  provider: EmbeddingProvider
+): Promise<Map<string, number>> {
+  const similarities = new Map<string, number>();
+  if (index.provider !== provider.name || index.entries.length === 0) {
+    return similarities;
+  }
+
+  const [query] = await provider.embed([description]);
+  const weights = provider.weighting === 'idf' ? inverseDocumentFrequency(index.entries, query.length) : null;
+  const weigh = (vector: number[]) => weights ? vector.map((value, i) => value * weights[i]) : vector;
+
+  const weightedQuery = weigh(query);
+  for (const entry of index.entries) {
+    similarities.set(entry.key, cosineSimilarity(weightedQuery, weigh(entry.vector)));
+  }
+  return similarities;
+}
+
+/**
+ * Signed feature hashing of words and their character trigrams, so related spellings share buckets
+ */
+function hashEmbedding(words: string[], dimensions: number): number[] {
+  const vector = new Array(dimensions).fill(0);
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature);
+    vector[hash % dimensions] += (hash & 0x80000000) ? -weight : weight;
+  };
+
+  for (const word of words) {
+    add(`w:${word}`, 1);
+    const padded = `#${word}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`t:${padded.substring(i, i + 3)}`, 0.5);
+    }
+  }
+  return vector;
+}
+
+function inverseDocumentFrequency(entries: VectorIndexEntry[], dimensions: number): number[] {
+  const documentFrequency = new Array(dimensions).fill(0);
+  for (const entry of entries) {
+    entry.vector.forEach((value, i) => {
+      if (value !== 0) documentFrequency[i]++;
+    });
+  }
+  return documentFrequency.map(count => Math.log((entries.length + 1) / (count + 1)) + 1);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}